@@ -1,54 +1,359 @@
 // src/core/base-trigger.ts (updated with DMMF)
 import { ConnectionManager } from './connection-manager';
+import { createScheduler, Scheduler } from './concurrency';
+import { createEventIterator, toReadableStream } from './event-stream';
 import { Condition, ConditionBuilder } from './conditions';
-import { getTableName, getColumnName } from '../utils/prisma';
+import {
+  buildNotifyFunctionSQL,
+  buildReferencingClause,
+  StatementBatch
+} from './notify-function';
+import {
+  Assignment,
+  buildAssignments,
+  buildSetFunctionSQL
+} from './set-function';
+import { buildRejectionSQL, DEFAULT_REJECTION_ERRCODE } from './rejections';
+import { buildOverflowTableSQL } from './overflow';
+import { loadTableColumns } from './table-columns';
+import {
+  buildOutboxTableSQL,
+  OutboxRow,
+  OUTBOX_BATCH_SIZE,
+  OUTBOX_LEASE,
+  OUTBOX_MAX_RETRY_DELAY,
+  OUTBOX_RETRY_DELAY,
+  OUTBOX_TABLE
+} from './outbox';
+import {
+  buildDeadLetterTableSQL,
+  DeadLetterRow,
+  DEAD_LETTER_BATCH_SIZE,
+  DEAD_LETTER_LEASE,
+  DEAD_LETTER_TABLE,
+  failedHandlerIds,
+  HandlerFailure,
+  retryDelay
+} from './dead-letters';
+import {
+  getTableName,
+  getColumnName,
+  getScalarFields,
+  TableColumn
+} from '../utils/prisma';
+import { FunctionCondition } from '../utils/condition-parser';
+import {
+  createPayloadReviver,
+  PayloadReviver,
+  TEXT_ENCODED_TYPES
+} from '../utils/payload-reviver';
+import {
+  deferrableClause,
+  generatedIdent,
+  quoteIdent,
+  quoteLiteral,
+  quoteQualifiedIdent,
+  truncateIdentifier
+} from '../utils/sql';
 import {
   TriggerConfig,
   TriggerHandle,
   TriggerStatus,
-  TriggerEvent,
+  HandleEvent,
   ModelName,
+  ModelField,
   Registry,
+  EventStreamOptions,
+  ReplayResult,
+  SubscribeOptions,
+  TriggerForEach,
   TriggerOperation
 } from '../types';
 
-export class BaseTrigger<Client, M extends ModelName<Client>>
-  implements TriggerHandle<Client, M>
+// A trigger's condition and whether it runs in the function instead of WHEN
+interface BuiltCondition {
+  sql: string;
+  inFunction: boolean;
+}
+
+// A handler added with subscribe() or on(). Each runs through a scheduler for
+// its concurrency option, and handlers added with `on` only see their
+// operation.
+interface HandlerSubscription {
+  handler: (event: any) => void | Promise<void>;
+  schedule: Scheduler;
+  operation?: TriggerOperation;
+  id?: string;
+}
+
+export class BaseTrigger<
+  Client,
+  M extends ModelName<Client>,
+  S extends ModelField<Client, M> = ModelField<Client, M>,
+  E extends TriggerOperation = TriggerOperation,
+  R extends TriggerForEach = TriggerForEach
+> implements TriggerHandle<Client, M, S, E, R>
 {
-  readonly config: TriggerConfig<Client, M>;
+  readonly config: TriggerConfig<Client, M, E, S, R>;
   private connectionManager: ConnectionManager;
   private isSetupComplete = false;
   private isListeningActive = false;
   private channel: string;
-  private handlers = new Set<(event: any) => void | Promise<void>>();
+  // Keyed by a token per subscription, so the same function can be
+  // subscribed twice and unsubscribed once
+  private handlers = new Map<symbol, HandlerSubscription>();
   private registry?: Registry<Client>;
   private tableName: string;
+  // Read from the catalog when the trigger is set up
+  private columns: TableColumn[] = [];
+  private revive: PayloadReviver;
+  private draining = false;
+  private drainRequested = false;
+  private outboxRetryTimer?: NodeJS.Timeout;
+
+  // Events fired while the listener was disconnected are still in the outbox
+  private readonly drainAfterReconnect = (): void => {
+    void this.drainOutbox();
+  };
 
   constructor(
-    config: TriggerConfig<Client, M>,
+    config: TriggerConfig<Client, M, E, S, R>,
     connectionManager: ConnectionManager
   ) {
     this.config = this.normalizeConfig(config);
     this.connectionManager = connectionManager;
-    this.channel =
+    // Listen on the same, possibly shortened, name the function notifies
+    this.channel = truncateIdentifier(
       config.notify ||
-      `${String(config.model)}_${config.events.join('_').toLowerCase()}`;
+        `${String(config.model)}_${config.events.join('_').toLowerCase()}`
+    );
 
     // Get actual table name from DMMF
     this.tableName = getTableName(String(config.model));
+
+    // Projected payloads are keyed by field, whole rows by column
+    this.revive = createPayloadReviver(String(config.model), {
+      keys: config.select?.length ? 'field' : 'column'
+    });
+
+    this.validateCondition();
+    this.validateRowFunction();
+    this.validateConstraint();
+    this.validateStatement();
+    this.validateFunction();
+  }
+
+  // A defined function is the trigger's only action
+  private validateFunction(): void {
+    const { name, function: fn, notify, set, reject } = this.config;
+    if (!fn) return;
+
+    if (notify || set || reject?.length) {
+      throw new Error(
+        `Trigger "${name}" executes the function "${fn.name}", so it can't also notify, set fields or reject writes`
+      );
+    }
+  }
+
+  // Statement-level notifications read the statement's rows from transition
+  // tables, which Postgres restricts to these triggers
+  private validateStatement(): void {
+    if (!this.isBatched()) return;
+    const { name, timing, events, watchColumns } = this.config;
+
+    if (timing !== 'AFTER') {
+      throw new Error(
+        `Trigger "${name}" notifies per statement, which only AFTER triggers can do`
+      );
+    }
+    if (events.length !== 1) {
+      throw new Error(
+        `Trigger "${name}" notifies per statement, which needs a single event but has ${events.join(
+          ', '
+        )}; define one trigger per event`
+      );
+    }
+    if (watchColumns?.length) {
+      throw new Error(
+        `Trigger "${name}" notifies per statement, so it can't watch columns`
+      );
+    }
+  }
+
+  private isBatched(): boolean {
+    return this.config.forEach === 'STATEMENT' && Boolean(this.config.notify);
+  }
+
+  // Updated rows are paired up on the table's primary key columns
+  private statementBatch(): StatementBatch {
+    const { name, model, events } = this.config;
+    const operation = events[0];
+    const idColumns = getScalarFields(String(model), this.columns)
+      .filter((field) => field.isId)
+      .map((field) => field.column);
+
+    if (operation === 'UPDATE' && idColumns.length === 0) {
+      throw new Error(
+        `Trigger "${name}" notifies per statement, but the table of ${String(
+          model
+        )} has no primary key to pair up updated rows`
+      );
+    }
+    return { operation, idColumns };
+  }
+
+  // Postgres only allows AFTER ... FOR EACH ROW constraint triggers
+  private validateConstraint(): void {
+    const { name, constraint, timing, forEach } = this.config;
+    if (!constraint) return;
+
+    if (timing !== 'AFTER' || forEach !== 'ROW') {
+      throw new Error(
+        `Trigger "${name}" is a constraint trigger, which must be AFTER ... FOR EACH ROW`
+      );
+    }
+    // Throws for contradictory options
+    deferrableClause(constraint);
+  }
+
+  // Postgres only rejects these conditions when the trigger is created, so
+  // check them as soon as it's defined
+  private validateCondition(): void {
+    const { name, when, forEach, timing } = this.config;
+    if (!when) return;
+
+    if (forEach === 'STATEMENT') {
+      throw new Error(
+        `Trigger "${name}" is statement-level, which can't have a WHEN condition`
+      );
+    }
+    if (timing === 'INSTEAD OF') {
+      throw new Error(
+        `Trigger "${name}" is an INSTEAD OF trigger, which can't have a WHEN condition`
+      );
+    }
+
+    const condition = this.buildCondition(this.config);
+    if (condition.inFunction) return;
+
+    this.checkRecords('condition', condition.sql);
+  }
+
+  // set() and reject() run in a generated BEFORE function, which only sees
+  // the row being written
+  private validateRowFunction(): void {
+    const { name, set, reject, timing, forEach, events, notify } = this.config;
+    if (!set && !reject?.length) return;
+    const action = set ? 'sets fields' : 'rejects writes';
+
+    if (timing !== 'BEFORE' || forEach !== 'ROW') {
+      throw new Error(
+        `Trigger "${name}" ${action}, which only row-level BEFORE triggers can do`
+      );
+    }
+    if (set && events.some((e) => e === 'DELETE' || e === 'TRUNCATE')) {
+      throw new Error(
+        `Trigger "${name}" sets fields, but ${events.join(
+          ' OR '
+        )} has no new row to set them on`
+      );
+    }
+    if (notify) {
+      throw new Error(
+        `Trigger "${name}" ${action}, so it can't also notify; use a separate AFTER trigger to notify`
+      );
+    }
+
+    if (set) {
+      for (const { value } of this.buildAssignments()) {
+        this.checkRecords('set() value', value);
+      }
+    }
+    this.buildRejections();
+  }
+
+  // Throws if the SQL references a row one of the trigger's events lacks
+  private checkRecords(what: string, sql: string): void {
+    // Blank out string literals so their contents can't look like references
+    const code = sql.replace(/'(?:[^']|'')*'/g, "''");
+    const events: TriggerOperation[] = this.config.events;
+    const missing = [
+      { event: 'INSERT', record: 'OLD' },
+      { event: 'DELETE', record: 'NEW' }
+    ] as const;
+
+    for (const { event, record } of missing) {
+      if (
+        events.includes(event) &&
+        new RegExp(`\\b${record}\\s*\\.`, 'i').test(code)
+      ) {
+        throw new Error(
+          `Trigger "${this.config.name}" fires on ${event}, which has no ${record} row, but its ${what} references ${record}: ${sql}`
+        );
+      }
+    }
+  }
+
+  private buildAssignments(): Assignment[] {
+    const { model, events, set } = this.config;
+    const values =
+      typeof set === 'function'
+        ? set(new ConditionBuilder<Client, M>(model, events))
+        : set;
+    return buildAssignments(String(model), values ?? {});
+  }
+
+  // Compiles the reject() rules into checks that raise an error
+  private buildRejections(): string | undefined {
+    const { name, model, events, reject } = this.config;
+    if (!reject?.length) return undefined;
+
+    const checks = reject.map(({ when, message, errcode }) => {
+      let condition: string;
+      let guarded = false;
+
+      if (typeof when === 'function') {
+        const builder = new ConditionBuilder<Client, M>(model, events);
+        condition = when(builder).toSQL();
+        guarded = builder.usesOperation;
+      } else {
+        condition = typeof when === 'string' ? when : this.conditionSQL(when);
+      }
+
+      // Conditions guarded by TG_OP only read OLD when there is one
+      if (!guarded) this.checkRecords('reject() condition', condition);
+      return {
+        condition,
+        message,
+        errcode: errcode ?? DEFAULT_REJECTION_ERRCODE
+      };
+    });
+
+    return buildRejectionSQL(name!, checks);
+  }
+
+  // Conditions compiled from a function's source need the table's columns
+  // to tell array fields apart
+  private conditionSQL(condition: Condition): string {
+    return condition instanceof FunctionCondition
+      ? condition.toSQL(this.columns)
+      : condition.toSQL();
   }
 
   private normalizeConfig(
-    config: TriggerConfig<Client, M>
-  ): TriggerConfig<Client, M> {
+    config: TriggerConfig<Client, M, E, S, R>
+  ): TriggerConfig<Client, M, E, S, R> {
     return {
       ...config,
       name: config.name || this.generateTriggerName(config),
+      functionName: config.function?.name ?? config.functionName,
       functionArgs: config.functionArgs || []
     };
   }
 
-  private generateTriggerName(config: TriggerConfig<Client, M>): string {
+  private generateTriggerName(
+    config: TriggerConfig<Client, M, E, S, R>
+  ): string {
     const events = config.events.join('_').toLowerCase();
     const timestamp = Date.now().toString(36);
     return `${String(config.model)}_${events}_${timestamp}`;
@@ -63,13 +368,33 @@ export class BaseTrigger<Client, M extends ModelName<Client>>
       this.config
     );
 
+    this.columns = await loadTableColumns(
+      this.connectionManager,
+      this.tableName
+    );
+    const condition = this.buildCondition(finalConfig);
+
     // Create notification function if using notify
     if (this.config.notify) {
-      await this.createNotifyFunction();
+      await this.createNotifyFunction(condition);
+    }
+
+    if (this.config.set || this.config.reject?.length) {
+      await this.createRowFunction();
+    }
+
+    if (this.config.function) {
+      await this.config.function.acquire(this.config.name!);
+    }
+
+    if (this.config.deadLetter === 'table') {
+      await this.connectionManager.transaction(async (tx) => {
+        await tx.unsafe(buildDeadLetterTableSQL());
+      });
     }
 
     // Create the trigger
-    await this.createTrigger(finalConfig);
+    await this.createTrigger(finalConfig, condition);
 
     this.isSetupComplete = true;
 
@@ -77,79 +402,102 @@ export class BaseTrigger<Client, M extends ModelName<Client>>
     await this.connectionManager.runPluginHook('afterSetup', this);
   }
 
-  private async createNotifyFunction(): Promise<void> {
-    const functionName = this.config.functionName;
-    const channel = this.channel;
-
-    const sql = `
-      CREATE OR REPLACE FUNCTION ${functionName}()
-      RETURNS TRIGGER AS $$
-      DECLARE
-        payload JSONB;
-        record_data JSONB;
-      BEGIN
-        -- Get the appropriate record
-        IF TG_OP = 'DELETE' THEN
-          record_data = to_jsonb(OLD);
-        ELSIF TG_OP = 'INSERT' OR TG_OP = 'UPDATE' THEN
-          record_data = to_jsonb(NEW);
-        ELSE
-          record_data = '{}'::JSONB;
-        END IF;
-
-        -- Build notification payload
-        payload = jsonb_build_object(
-          'operation', TG_OP,
-          'timestamp', NOW(),
-          'table', TG_TABLE_NAME,
-          'schema', TG_TABLE_SCHEMA,
-          'data', record_data
-        );
+  private async createNotifyFunction(condition: BuiltCondition): Promise<void> {
+    // The function queues events in the outbox or spills oversized payloads
+    // into the overflow table, so make sure the table exists first
+    const tableSQL = this.isOutbox()
+      ? buildOutboxTableSQL()
+      : buildOverflowTableSQL();
+    await this.connectionManager.transaction(async (tx) => {
+      await tx.unsafe(tableSQL);
+    });
+
+    const sql = buildNotifyFunctionSQL({
+      functionName: this.config.functionName,
+      channel: this.channel,
+      onlyIfChanged: this.config.onlyIfChanged,
+      delivery: this.config.delivery,
+      condition: condition.inFunction ? condition.sql : undefined,
+      statement: this.isBatched() ? this.statementBatch() : undefined,
+      textColumns: getScalarFields(String(this.config.model), this.columns)
+        .filter((field) => TEXT_ENCODED_TYPES.includes(field.type))
+        .map(({ column, isList }) => ({ column, isList })),
+      columns: this.config.select?.map((field) => ({
+        field: String(field),
+        column: getColumnName(String(this.config.model), String(field))
+      }))
+    });
+
+    await this.connectionManager.transaction(async (tx) => {
+      await tx.unsafe(sql);
+    });
+  }
 
-        -- Send notification
-        PERFORM pg_notify('${channel}', payload::TEXT);
-        
-        -- Return appropriate record
-        IF TG_OP = 'DELETE' THEN
-          RETURN OLD;
-        ELSE
-          RETURN NEW;
-        END IF;
-      END;
-      $$ LANGUAGE plpgsql;
-    `;
+  private async createRowFunction(): Promise<void> {
+    const sql = buildSetFunctionSQL({
+      functionName: this.config.functionName,
+      assignments: this.config.set ? this.buildAssignments() : [],
+      rejections: this.buildRejections()
+    });
 
     await this.connectionManager.transaction(async (tx) => {
       await tx.unsafe(sql);
     });
   }
 
-  private buildConditionSQL(config: TriggerConfig<Client, M>): string {
-    if (!config.when) return '';
+  private buildCondition(
+    config: TriggerConfig<Client, M, E, S, R>
+  ): BuiltCondition {
+    const none = { sql: '', inFunction: false };
+    if (!config.when) return none;
 
     if (typeof config.when === 'string') {
-      return config.when;
+      return { sql: config.when, inFunction: false };
     }
 
     if (typeof config.when === 'function') {
-      const builder = new ConditionBuilder<Client, M>();
-      const condition = config.when(builder);
-      return condition.toSQL();
+      const builder = new ConditionBuilder<Client, M>(
+        config.model,
+        config.events
+      );
+      const sql = config.when(builder).toSQL();
+
+      // TG_OP is only visible inside the function, so the condition moves
+      // there; a user-supplied function can't be rewritten
+      if (builder.usesOperation && !config.notify) {
+        throw new Error(
+          `Trigger "${config.name}" has a condition that depends on the operation, which requires notify(); split the trigger by operation instead`
+        );
+      }
+      return { sql, inFunction: builder.usesOperation };
     }
 
     // It's already a Condition object
     if (config.when && typeof config.when === 'object' && 'toSQL' in config.when) {
-      return (config.when as any).toSQL();
+      return { sql: this.conditionSQL(config.when), inFunction: false };
     }
 
-    return '';
+    return none;
+  }
+
+  // Functions the trigger creates have generated names; one passed to
+  // executeFunction() already exists and may be schema-qualified
+  private functionIdent(): string {
+    const { notify, set, reject, function: fn, functionName } = this.config;
+    return notify || set || reject?.length || fn
+      ? generatedIdent(functionName)
+      : quoteQualifiedIdent(functionName);
   }
 
-  private async createTrigger(config: TriggerConfig<Client, M>): Promise<void> {
-    const conditionSQL = this.buildConditionSQL(config);
+  private async createTrigger(
+    config: TriggerConfig<Client, M, E, S, R>,
+    condition: BuiltCondition
+  ): Promise<void> {
+    const conditionSQL = condition.inFunction ? '' : condition.sql;
 
     // Build trigger SQL using actual table name
-    let sql = `CREATE TRIGGER "${config.name}"\n`;
+    const kind = config.constraint ? 'CONSTRAINT TRIGGER' : 'TRIGGER';
+    let sql = `CREATE ${kind} ${generatedIdent(config.name!)}\n`;
     sql += `${config.timing} ${config.events.join(' OR ')}\n`;
 
     if (config.watchColumns && config.watchColumns.length > 0) {
@@ -157,22 +505,41 @@ export class BaseTrigger<Client, M extends ModelName<Client>>
       const columns = config.watchColumns.map((col) =>
         getColumnName(String(config.model), String(col))
       );
-      sql += `OF ${columns.map((col) => `"${col}"`).join(', ')}\n`;
+      sql += `OF ${columns.map(quoteIdent).join(', ')}\n`;
     }
 
     // Use actual table name from DMMF
-    sql += `ON "${this.tableName}"\n`;
+    sql += `ON ${quoteIdent(this.tableName)}\n`;
+    if (config.constraint) {
+      sql += `${deferrableClause(config.constraint)}\n`;
+    }
+    const referencing = this.isBatched()
+      ? buildReferencingClause(config.events[0])
+      : '';
+    if (referencing) {
+      sql += `${referencing}\n`;
+    }
     sql += `FOR EACH ${config.forEach}\n`;
 
     if (conditionSQL) {
       sql += `WHEN (${conditionSQL})\n`;
     }
 
-    sql += `EXECUTE FUNCTION ${config.functionName}(${
-      config.functionArgs?.join(', ') || ''
-    });`;
+    // Trigger arguments are always passed to the function as strings
+    sql += `EXECUTE FUNCTION ${this.functionIdent()}(${(
+      config.functionArgs ?? []
+    )
+      .map(quoteLiteral)
+      .join(', ')});`;
 
+    // Replace any trigger left by a previous run so setup can be repeated
+    // on restart, which outbox delivery relies on to catch up
     await this.connectionManager.transaction(async (tx) => {
+      await tx.unsafe(
+        `DROP TRIGGER IF EXISTS ${generatedIdent(config.name!)} ON ${quoteIdent(
+          this.tableName
+        )};`
+      );
       await tx.unsafe(sql);
     });
   }
@@ -183,17 +550,23 @@ export class BaseTrigger<Client, M extends ModelName<Client>>
     await this.stop();
 
     // Use actual table name
-    const sql = `DROP TRIGGER IF EXISTS "${this.config.name}" ON "${this.tableName}";`;
+    const sql = `DROP TRIGGER IF EXISTS ${generatedIdent(
+      this.config.name!
+    )} ON ${quoteIdent(this.tableName)};`;
     await this.connectionManager.transaction(async (tx) => {
       await tx.unsafe(sql);
     });
 
     // Drop function if it was auto-created
-    if (this.config.notify) {
-      const dropFunc = `DROP FUNCTION IF EXISTS ${this.config.functionName}();`;
+    if (this.config.notify || this.config.set || this.config.reject?.length) {
+      const dropFunc = `DROP FUNCTION IF EXISTS ${generatedIdent(
+        this.config.functionName
+      )}();`;
       await this.connectionManager.transaction(async (tx) => {
         await tx.unsafe(dropFunc);
       });
+    } else if (this.config.function) {
+      await this.config.function.release(this.config.name!);
     }
 
     this.isSetupComplete = false;
@@ -208,44 +581,404 @@ export class BaseTrigger<Client, M extends ModelName<Client>>
 
     await this.connectionManager.subscribe(this.channel, async (payload) => {
       try {
-        const event = JSON.parse(payload) as TriggerEvent<
-          Client,
-          M,
-          TriggerOperation
-        >;
-
-        // Process all handlers concurrently
-        await Promise.allSettled(
-          Array.from(this.handlers).map((handler) =>
-            Promise.resolve(handler(event))
-          )
-        );
+        // Outbox notifications are only wake-ups; the events are in the table
+        if (this.isOutbox()) {
+          await this.drainOutbox();
+          return;
+        }
+
+        const errors = await this.runHandlers(JSON.parse(payload));
+        if (errors.length > 0) {
+          this.connectionManager.emit('handler:errors', {
+            channel: this.channel,
+            errors
+          });
+        }
       } catch (error) {
         this.connectionManager.emit('error', error);
       }
     });
 
     this.isListeningActive = true;
+
+    // Catch up on events queued while nobody was listening
+    if (this.isOutbox()) {
+      this.connectionManager.on('reconnected', this.drainAfterReconnect);
+      await this.drainOutbox();
+    }
+  }
+
+  private isOutbox(): boolean {
+    return this.config.delivery === 'outbox';
+  }
+
+  // Revives a parsed payload, runs the handlers for it and dead-letters it if
+  // any of them kept failing. Resolves with the failures that could not be
+  // dead-lettered.
+  private async runHandlers(payload: any): Promise<unknown[]> {
+    const event: HandleEvent<Client, M, E, S, R> = this.revive(payload);
+    const failures = await this.settleHandlers(event);
+    const errors = failures.map((failure) => failure.error);
+    if (errors.length === 0 || !this.config.deadLetter) return errors;
+
+    try {
+      await this.sendToDeadLetters(payload, event, failures);
+      return [];
+    } catch (error) {
+      this.connectionManager.emit('error', error);
+      return errors;
+    }
+  }
+
+  // Runs the handlers for an event with retries and collects the failures.
+  // With ids, only the handlers with one of those ids run.
+  private async settleHandlers(
+    event: any,
+    ids?: string[] | null
+  ): Promise<HandlerFailure[]> {
+    const handlers = Array.from(this.handlers.values()).filter(
+      ({ operation, id }) =>
+        (!operation || operation === event.operation) &&
+        (!ids || (id !== undefined && ids.includes(id)))
+    );
+    const results = await Promise.allSettled(
+      handlers.map(({ handler, schedule }) =>
+        schedule(event, () => this.runWithRetry(handler, event))
+      )
+    );
+
+    return results.flatMap((result, index) =>
+      result.status === 'rejected'
+        ? [{ id: handlers[index].id, error: result.reason }]
+        : []
+    );
+  }
+
+  private async runWithRetry(
+    handler: (event: any) => void | Promise<void>,
+    event: any
+  ): Promise<void> {
+    const attempts = this.retryAttempts();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await handler(event);
+        return;
+      } catch (error) {
+        if (attempt >= attempts) throw error;
+
+        const delay = retryDelay(this.config.retry?.backoff, attempt);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private retryAttempts(): number {
+    return Math.max(1, this.config.retry?.attempts ?? 1);
+  }
+
+  // The table stores the payload as received, since revived values such as
+  // BigInt can't be serialized back to JSON
+  private async sendToDeadLetters(
+    payload: any,
+    event: HandleEvent<Client, M, E, S, R>,
+    failures: HandlerFailure[]
+  ): Promise<void> {
+    const sink = this.config.deadLetter;
+    const attempts = this.retryAttempts();
+    const errors = failures.map((failure) => failure.error);
+    const handlers = failedHandlerIds(failures);
+
+    if (typeof sink === 'function') {
+      await sink({
+        trigger: this.config.name!,
+        channel: this.channel,
+        event,
+        errors,
+        attempts,
+        handlers
+      });
+      return;
+    }
+
+    await this.connectionManager.transaction(async (tx) => {
+      await tx`
+        INSERT INTO ${tx(DEAD_LETTER_TABLE)}
+          (trigger_name, channel, payload, errors, attempts, handlers)
+        VALUES (
+          ${this.config.name!},
+          ${this.channel},
+          ${tx.json(payload)},
+          ${tx.array(errors.map(errorMessage))},
+          ${attempts},
+          ${handlers && tx.array(handlers)}
+        )
+      `;
+    });
+  }
+
+  /**
+   * Runs the events stored in the dead-letter table through the handlers
+   * that failed them, or every current handler when a failed one had no id.
+   * Events that succeed are removed; the rest stay stored with their
+   * attempts, errors and failed handlers updated. Rows are claimed before
+   * their handlers run, so concurrent replays skip each other's rows.
+   */
+  async replayDeadLetters(): Promise<ReplayResult> {
+    if (this.config.deadLetter !== 'table') {
+      throw new Error(
+        `Trigger ${this.config.name} does not store dead letters in ${DEAD_LETTER_TABLE}; use deadLetter: 'table' to replay them`
+      );
+    }
+
+    const result: ReplayResult = { replayed: 0, failed: 0 };
+    let lastId = '0';
+
+    // Claim a batch at a time in a short transaction and run the handlers
+    // outside it, so slow handlers hold no locks
+    for (;;) {
+      const rows = await this.connectionManager.transaction(
+        (tx) => tx<DeadLetterRow[]>`
+          WITH claimed AS (
+            UPDATE ${tx(DEAD_LETTER_TABLE)}
+            SET claimed_until =
+              NOW() + ${DEAD_LETTER_LEASE}::float8 * INTERVAL '1 millisecond'
+            WHERE id IN (
+              SELECT id
+              FROM ${tx(DEAD_LETTER_TABLE)}
+              WHERE trigger_name = ${this.config.name!}
+                AND id > ${lastId}
+                AND (claimed_until IS NULL OR claimed_until <= NOW())
+              ORDER BY id
+              LIMIT ${DEAD_LETTER_BATCH_SIZE}
+              FOR UPDATE SKIP LOCKED
+            )
+            RETURNING id, payload, attempts, handlers
+          )
+          SELECT * FROM claimed ORDER BY id
+        `
+      );
+
+      for (const row of rows) {
+        const failures = await this.settleHandlers(
+          this.revive(row.payload),
+          row.handlers
+        );
+
+        if (failures.length === 0) {
+          await this.connectionManager.transaction(
+            (tx) =>
+              tx`DELETE FROM ${tx(DEAD_LETTER_TABLE)} WHERE id = ${row.id}`
+          );
+          result.replayed++;
+        } else {
+          const handlers = failedHandlerIds(failures);
+          await this.connectionManager.transaction(
+            (tx) => tx`
+              UPDATE ${tx(DEAD_LETTER_TABLE)}
+              SET attempts = ${row.attempts + this.retryAttempts()},
+                  errors = ${tx.array(
+                    failures.map((failure) => errorMessage(failure.error))
+                  )},
+                  handlers = ${handlers && tx.array(handlers)},
+                  claimed_until = NULL,
+                  failed_at = NOW()
+              WHERE id = ${row.id}
+            `
+          );
+          result.failed++;
+        }
+      }
+
+      if (rows.length < DEAD_LETTER_BATCH_SIZE) break;
+      lastId = rows[rows.length - 1].id;
+    }
+
+    return result;
+  }
+
+  // Delivers queued outbox events until none are left, then sets a timer for
+  // the rows still leased. Concurrent wake-ups while a drain is running
+  // schedule one more pass instead of overlapping.
+  private async drainOutbox(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+
+    this.draining = true;
+    try {
+      do {
+        this.drainRequested = false;
+        while (this.isListeningActive && (await this.drainOutboxBatch())) {
+          // Keep going while batches come back full
+        }
+      } while (this.drainRequested && this.isListeningActive);
+
+      if (this.isListeningActive) {
+        await this.scheduleOutboxRetry();
+      }
+    } catch (error) {
+      // Timers and reconnects start drains nobody awaits, and an 'error'
+      // event without a listener would throw. The rows stay queued for a
+      // later drain.
+      if (this.connectionManager.listenerCount('error') > 0) {
+        this.connectionManager.emit('error', error);
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  // Claims a batch of outbox rows in a short transaction and delivers them
+  // outside it, so slow handlers hold no locks. Delivered rows are deleted;
+  // failed rows stay leased until their retry is due. Returns whether
+  // another batch may be waiting.
+  private async drainOutboxBatch(): Promise<boolean> {
+    const rows = await this.connectionManager.transaction(
+      (tx) => tx<OutboxRow[]>`
+        WITH claimed AS (
+          UPDATE ${tx(OUTBOX_TABLE)}
+          SET claimed_until =
+            NOW() + ${OUTBOX_LEASE}::float8 * INTERVAL '1 millisecond'
+          WHERE id IN (
+            SELECT id
+            FROM ${tx(OUTBOX_TABLE)}
+            WHERE channel = ${this.channel}
+              AND (claimed_until IS NULL OR claimed_until <= NOW())
+            ORDER BY id
+            LIMIT ${OUTBOX_BATCH_SIZE}
+            FOR UPDATE SKIP LOCKED
+          )
+          RETURNING id, payload, attempts
+        )
+        SELECT * FROM claimed ORDER BY id
+      `
+    );
+
+    const delivered: string[] = [];
+    const failed: string[] = [];
+    for (const row of rows) {
+      const ok = await this.connectionManager.deliver(
+        this.channel,
+        row.payload,
+        [
+          async (payload) => {
+            const errors = await this.runHandlers(JSON.parse(payload));
+            if (errors.length > 0) throw errors[0];
+          }
+        ]
+      );
+
+      (ok ? delivered : failed).push(row.id);
+    }
+
+    await this.connectionManager.transaction(async (tx) => {
+      if (delivered.length > 0) {
+        await tx`DELETE FROM ${tx(OUTBOX_TABLE)} WHERE id IN ${tx(delivered)}`;
+      }
+      if (failed.length > 0) {
+        await tx`
+          UPDATE ${tx(OUTBOX_TABLE)}
+          SET attempts = attempts + 1,
+              claimed_until = NOW() + LEAST(
+                ${OUTBOX_RETRY_DELAY}::float8 * 2 ^ attempts,
+                ${OUTBOX_MAX_RETRY_DELAY}::float8
+              ) * INTERVAL '1 millisecond'
+          WHERE id IN ${tx(failed)}
+        `;
+      }
+    });
+
+    return rows.length === OUTBOX_BATCH_SIZE;
+  }
+
+  // Drains again once the earliest leased row can be claimed: a failed row
+  // whose retry is due, or one whose listener died while delivering it
+  private async scheduleOutboxRetry(): Promise<void> {
+    const [{ delay }] = await this.connectionManager.transaction(
+      (tx) => tx<{ delay: number | null }[]>`
+        SELECT CEIL(
+          EXTRACT(EPOCH FROM MIN(claimed_until) - clock_timestamp()) * 1000
+        )::float8 AS delay
+        FROM ${tx(OUTBOX_TABLE)}
+        WHERE channel = ${this.channel} AND claimed_until IS NOT NULL
+      `
+    );
+
+    clearTimeout(this.outboxRetryTimer);
+    if (delay === null || !this.isListeningActive) return;
+
+    this.outboxRetryTimer = setTimeout(
+      () => void this.drainOutbox(),
+      Math.max(0, delay)
+    );
   }
 
   async stop(): Promise<void> {
     if (!this.isListeningActive) return;
 
     await this.connectionManager.unsubscribe(this.channel);
+    this.connectionManager.off('reconnected', this.drainAfterReconnect);
+    clearTimeout(this.outboxRetryTimer);
     this.isListeningActive = false;
   }
 
-  subscribe<E extends TriggerOperation>(
-    handler: (event: TriggerEvent<Client, M, E>) => void | Promise<void>
+  subscribe(
+    handler: (event: HandleEvent<Client, M, E, S, R>) => void | Promise<void>,
+    options: SubscribeOptions<HandleEvent<Client, M, E, S, R>> = {}
+  ): () => void {
+    return this.addHandler(handler, options);
+  }
+
+  on<O extends E>(
+    operation: O,
+    handler: (event: HandleEvent<Client, M, O, S, R>) => void | Promise<void>,
+    options: SubscribeOptions<HandleEvent<Client, M, O, S, R>> = {}
+  ): () => void {
+    if (!this.config.events.includes(operation)) {
+      throw new Error(
+        `Trigger ${this.config.name} does not fire on ${operation}`
+      );
+    }
+
+    return this.addHandler(handler, options, operation);
+  }
+
+  private addHandler(
+    handler: (event: any) => void | Promise<void>,
+    options: SubscribeOptions<any>,
+    operation?: TriggerOperation
   ): () => void {
-    this.handlers.add(handler as any);
+    const token = Symbol('subscription');
+    this.handlers.set(token, {
+      handler,
+      schedule: createScheduler(options.concurrency),
+      operation,
+      id: options.id
+    });
 
     // Return unsubscribe function
     return () => {
-      this.handlers.delete(handler as any);
+      this.handlers.delete(token);
     };
   }
 
+  events(
+    options?: EventStreamOptions
+  ): AsyncIterableIterator<HandleEvent<Client, M, E, S, R>> {
+    return createEventIterator(
+      (handler, subscribeOptions) => this.subscribe(handler, subscribeOptions),
+      options
+    );
+  }
+
+  stream(
+    options?: EventStreamOptions
+  ): ReadableStream<HandleEvent<Client, M, E, S, R>> {
+    return toReadableStream(this.events(options));
+  }
+
   getStatus(): TriggerStatus {
     return {
       name: this.config.name!,
@@ -275,3 +1008,7 @@ export class BaseTrigger<Client, M extends ModelName<Client>>
     await this.listen();
   }
 }
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,52 @@
+// src/core/concurrency.ts
+import { Concurrency } from '../types';
+
+/**
+ * Runs a handler invocation for an event, respecting the handler's concurrency
+ */
+export type Scheduler = (
+  event: any,
+  task: () => Promise<void>
+) => Promise<void>;
+
+const SERIAL_KEY = Symbol('serial');
+
+/**
+ * Creates a scheduler for one handler. Tasks that share a partition key run
+ * one after another in the order they were scheduled; different keys run in
+ * parallel. `'serial'` puts every event in the same partition.
+ */
+export function createScheduler(
+  concurrency: Concurrency = 'parallel'
+): Scheduler {
+  if (concurrency === 'parallel') {
+    return (_event, task) => task();
+  }
+
+  const partitionBy =
+    concurrency === 'serial' ? () => SERIAL_KEY : concurrency.partitionBy;
+  const tails = new Map<unknown, Promise<void>>();
+
+  return (event, task) => {
+    let key: unknown;
+    try {
+      key = partitionBy(event);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const run = (tails.get(key) ?? Promise.resolve()).then(task);
+
+    // A failed task must not hold up the rest of its partition
+    const tail = run.then(
+      () => undefined,
+      () => undefined
+    );
+    tails.set(key, tail);
+    void tail.then(() => {
+      if (tails.get(key) === tail) tails.delete(key);
+    });
+
+    return run;
+  };
+}
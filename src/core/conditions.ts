@@ -1,5 +1,14 @@
 // src/core/conditions.ts
-import { ModelName, ModelField, ModelRecord, FieldType } from '../types';
+import {
+  ModelName,
+  ModelField,
+  ModelRecord,
+  FieldType,
+  TriggerOperation
+} from '../types';
+import { ComparisonOperator } from '../types/core';
+import { getColumnName } from '../utils/prisma';
+import { quoteIdent, quoteLiteral } from '../utils/sql';
 
 export type ConditionSQL = string & { _brand: 'ConditionSQL' };
 
@@ -16,6 +25,7 @@ export class FieldRef<
   constructor(
     private record: 'NEW' | 'OLD',
     private field: F,
+    private column: string = String(field), // Physical column name
     private _phantom?: FieldType<Client, M, F> // For type inference
   ) {}
 
@@ -69,10 +79,71 @@ export class FieldRef<
     return new Comparison(this, 'LIKE', value);
   }
 
+  ilike(
+    value: NonNullable<FieldType<Client, M, F>> extends string ? string : never
+  ): Comparison<Client, M, F> {
+    return new Comparison(this, ComparisonOperator.ILIKE, value);
+  }
+
+  notLike(
+    value: NonNullable<FieldType<Client, M, F>> extends string ? string : never
+  ): Comparison<Client, M, F> {
+    return new Comparison(this, ComparisonOperator.NOT_LIKE, value);
+  }
+
+  // Prefix and suffix matches with LIKE wildcards in the value escaped
+  startsWith(
+    value: NonNullable<FieldType<Client, M, F>> extends string ? string : never
+  ): Comparison<Client, M, F> {
+    return new Comparison(this, 'LIKE', `${escapeLike(value)}%`);
+  }
+
+  endsWith(
+    value: NonNullable<FieldType<Client, M, F>> extends string ? string : never
+  ): Comparison<Client, M, F> {
+    return new Comparison(this, 'LIKE', `%${escapeLike(value)}`);
+  }
+
+  // A RegExp's `i` flag selects the case-insensitive operator
+  matches(
+    pattern: NonNullable<FieldType<Client, M, F>> extends string
+      ? string | RegExp
+      : never
+  ): Comparison<Client, M, F> {
+    if (typeof pattern === 'string') {
+      return new Comparison(this, ComparisonOperator.MATCHES, pattern);
+    }
+
+    const unsupported = pattern.flags.replace('i', '');
+    if (unsupported) {
+      throw new Error(`Unsupported RegExp flags for matches(): ${unsupported}`);
+    }
+
+    const op = pattern.flags.includes('i')
+      ? ComparisonOperator.MATCHES_INSENSITIVE
+      : ComparisonOperator.MATCHES;
+    return new Comparison(this, op, pattern.source);
+  }
+
+  between(
+    low: NonNullable<FieldType<Client, M, F>> extends number | Date | string
+      ? FieldType<Client, M, F> | FieldRef<Client, M, any>
+      : never,
+    high: NonNullable<FieldType<Client, M, F>> extends number | Date | string
+      ? FieldType<Client, M, F> | FieldRef<Client, M, any>
+      : never
+  ): Comparison<Client, M, F> {
+    return new Comparison(this, ComparisonOperator.BETWEEN, [low, high]);
+  }
+
   in(values: FieldType<Client, M, F>[]): Comparison<Client, M, F> {
     return new Comparison(this, 'IN', values);
   }
 
+  notIn(values: FieldType<Client, M, F>[]): Comparison<Client, M, F> {
+    return new Comparison(this, ComparisonOperator.NOT_IN, values);
+  }
+
   isNull(): Comparison<Client, M, F> {
     return new Comparison(this, 'IS', null);
   }
@@ -81,8 +152,108 @@ export class FieldRef<
     return new Comparison(this, 'IS NOT', null);
   }
 
+  // Array operators, only available on list fields
+
+  contains(values: ListValues<FieldType<Client, M, F>>): Condition {
+    return this.operator('@>', arrayLiteral(values));
+  }
+
+  overlaps(values: ListValues<FieldType<Client, M, F>>): Condition {
+    return this.operator('&&', arrayLiteral(values));
+  }
+
+  containedBy(values: ListValues<FieldType<Client, M, F>>): Condition {
+    return this.operator('<@', arrayLiteral(values));
+  }
+
+  // Takes no arguments on list fields; on other fields it can't be called
+  length(..._: IfList<FieldType<Client, M, F>, [], [never]>): ValueRef<number> {
+    return new ValueRef<number>(() => `cardinality(${this.toSQL()})`);
+  }
+
+  // JSON operators, only available on Json fields
+
+  path(
+    ...keys: IfJson<FieldType<Client, M, F>, string[], never[]>
+  ): ValueRef<JsonScalar> {
+    return new ValueRef((value) => jsonPath(this.toSQL(), keys, value));
+  }
+
+  hasKey(key: IfJson<FieldType<Client, M, F>, string>): Condition {
+    return this.operator('?', quoteLiteral(key));
+  }
+
+  hasAnyKey(keys: IfJson<FieldType<Client, M, F>, string[]>): Condition {
+    return this.operator('?|', arrayLiteral(keys));
+  }
+
+  hasAllKeys(keys: IfJson<FieldType<Client, M, F>, string[]>): Condition {
+    return this.operator('?&', arrayLiteral(keys));
+  }
+
+  jsonContains(
+    value: IfJson<FieldType<Client, M, F>, Record<string, unknown> | unknown[]>
+  ): Condition {
+    return this.operator('@>', `${quoteLiteral(JSON.stringify(value))}::jsonb`);
+  }
+
+  private operator(op: string, operand: string): Condition {
+    return { toSQL: () => `${this.toSQL()} ${op} ${operand}` as ConditionSQL };
+  }
+
   toSQL(): string {
-    return `${this.record}."${String(this.field)}"`;
+    return `${this.record}.${quoteIdent(this.column)}`;
+  }
+}
+
+// A computed value, such as an array length or a JSON path, that can be
+// compared like a field or assigned in a BEFORE trigger. The SQL can depend on
+// the value it's compared with.
+export class ValueRef<T> {
+  constructor(
+    // Not typed by T, so a ValueRef<string> is also a ValueRef<string | null>
+    private expression: (value?: any) => string,
+    private _phantom?: T // For type inference
+  ) {}
+
+  eq(value: T): Condition {
+    return this.compare('=', value);
+  }
+
+  ne(value: T): Condition {
+    return this.compare('<>', value);
+  }
+
+  gt(value: T): Condition {
+    return this.compare('>', value);
+  }
+
+  gte(value: T): Condition {
+    return this.compare('>=', value);
+  }
+
+  lt(value: T): Condition {
+    return this.compare('<', value);
+  }
+
+  lte(value: T): Condition {
+    return this.compare('<=', value);
+  }
+
+  isNull(): Condition {
+    return { toSQL: () => `${this.expression()} IS NULL` as ConditionSQL };
+  }
+
+  isNotNull(): Condition {
+    return { toSQL: () => `${this.expression()} IS NOT NULL` as ConditionSQL };
+  }
+
+  private compare(op: string, value: T): Condition {
+    return new Comparison({ toSQL: () => this.expression(value) }, op, value);
+  }
+
+  toSQL(): string {
+    return this.expression();
   }
 }
 
@@ -93,7 +264,7 @@ class Comparison<
 > implements Condition
 {
   constructor(
-    private field: FieldRef<Client, M, F>,
+    private field: FieldRef<Client, M, F> | { toSQL(): string },
     private op: string,
     private value: any
   ) {}
@@ -110,37 +281,48 @@ class Comparison<
     }
 
     if (this.op === 'IN' || this.op === 'NOT IN') {
-      const values = (this.value as any[])
-        .map((v) => this.escape(v))
-        .join(', ');
+      // An empty list matches nothing, and excluding nothing matches everything
+      if ((this.value as any[]).length === 0) {
+        return (this.op === 'IN' ? 'FALSE' : 'TRUE') as ConditionSQL;
+      }
+      const values = (this.value as any[]).map(expressionSQL).join(', ');
       return `${fieldSQL} ${this.op} (${values})` as ConditionSQL;
     }
 
-    return `${fieldSQL} ${this.op} ${this.escape(this.value)}` as ConditionSQL;
-  }
-
-  private escape(value: any): string {
-    if (typeof value === 'string') {
-      return `'${value.replace(/'/g, "''")}'`;
+    if (this.op === 'BETWEEN') {
+      const [low, high] = (this.value as any[]).map(expressionSQL);
+      return `${fieldSQL} BETWEEN ${low} AND ${high}` as ConditionSQL;
     }
-    if (typeof value === 'boolean') {
-      return value ? 'TRUE' : 'FALSE';
-    }
-    if (value instanceof Date) {
-      return `'${value.toISOString()}'`;
-    }
-    return String(value);
+
+    return `${fieldSQL} ${this.op} ${expressionSQL(this.value)}` as ConditionSQL;
   }
 }
 
-// Condition builder that requires context
+// Condition builder that requires context. With a model name, fields are
+// resolved to their mapped column names. With the trigger's events, the
+// transition helpers account for INSERT, which has no OLD row.
 export class ConditionBuilder<Client, M extends ModelName<Client>> {
+  private guarded = false;
+
+  constructor(
+    private model?: M,
+    private events?: readonly TriggerOperation[]
+  ) {}
+
+  /**
+   * Whether a built condition checks TG_OP, which WHEN clauses can't see, so
+   * it has to be evaluated inside the trigger function instead
+   */
+  get usesOperation(): boolean {
+    return this.guarded;
+  }
+
   NEW<F extends ModelField<Client, M>>(field: F): FieldRef<Client, M, F> {
-    return new FieldRef('NEW', field);
+    return new FieldRef('NEW', field, this.column(field));
   }
 
   OLD<F extends ModelField<Client, M>>(field: F): FieldRef<Client, M, F> {
-    return new FieldRef('OLD', field);
+    return new FieldRef('OLD', field, this.column(field));
   }
 
   and(...conditions: Condition[]): Condition {
@@ -157,54 +339,428 @@ export class ConditionBuilder<Client, M extends ModelName<Client>> {
     };
   }
 
-  changed<F extends ModelField<Client, M>>(field: F): Condition {
+  not(condition: Condition): Condition {
     return {
-      toSQL: () =>
-        `NEW."${String(field)}" IS DISTINCT FROM OLD."${String(
-          field
-        )}"` as ConditionSQL
+      toSQL: () => `NOT (${condition.toSQL()})` as ConditionSQL
     };
   }
+
+  changed<F extends ModelField<Client, M>>(field: F): Condition {
+    return this.changedAny(field);
+  }
+
+  /** Any of the fields changed; an INSERT counts as changing every field */
+  changedAny<F extends ModelField<Client, M>>(...fields: F[]): Condition {
+    if (fields.length === 0) {
+      throw new Error('changedAny() needs at least one field');
+    }
+
+    const changes = fields.map((field) => {
+      const column = quoteIdent(this.column(field));
+      return `NEW.${column} IS DISTINCT FROM OLD.${column}`;
+    });
+    return this.transition(
+      changes.length === 1 ? changes[0] : `(${changes.join(' OR ')})`,
+      'TRUE'
+    );
+  }
+
+  /** The field changed to `value`, or was inserted with it */
+  changedTo<F extends ModelField<Client, M>>(
+    field: F,
+    value: FieldType<Client, M, F>
+  ): Condition {
+    const is = this.equals(this.NEW(field), value);
+    return this.transition(`${this.distinct(field)} AND ${is}`, is);
+  }
+
+  /** The field changed away from `value`; never true for an INSERT */
+  changedFrom<F extends ModelField<Client, M>>(
+    field: F,
+    value: FieldType<Client, M, F>
+  ): Condition {
+    const was = this.equals(this.OLD(field), value);
+    return this.transition(`${was} AND ${this.distinct(field)}`, 'FALSE');
+  }
+
+  /** The field changed from `from` to `to`; never true for an INSERT */
+  transitioned<F extends ModelField<Client, M>>(
+    field: F,
+    from: FieldType<Client, M, F>,
+    to: FieldType<Client, M, F>
+  ): Condition {
+    const was = this.equals(this.OLD(field), from);
+    const is = this.equals(this.NEW(field), to);
+    return this.transition(`${was} AND ${is}`, 'FALSE');
+  }
+
+  /** The field was set to null; never true for an INSERT */
+  becameNull<F extends ModelField<Client, M>>(field: F): Condition {
+    const column = quoteIdent(this.column(field));
+    return this.transition(
+      `OLD.${column} IS NOT NULL AND NEW.${column} IS NULL`,
+      'FALSE'
+    );
+  }
+
+  /** The field was set from null to a value, or inserted with one */
+  becameNotNull<F extends ModelField<Client, M>>(field: F): Condition {
+    const column = quoteIdent(this.column(field));
+    return this.transition(
+      `OLD.${column} IS NULL AND NEW.${column} IS NOT NULL`,
+      `NEW.${column} IS NOT NULL`
+    );
+  }
+
+  /** The time the current transaction started */
+  now(): ValueRef<Date> {
+    return new ValueRef(() => 'NOW()');
+  }
+
+  lower<V extends TextExpression<Client, M>>(
+    value: V
+  ): ValueRef<ExpressionType<V>> {
+    return this.call('LOWER', [value]);
+  }
+
+  upper<V extends TextExpression<Client, M>>(
+    value: V
+  ): ValueRef<ExpressionType<V>> {
+    return this.call('UPPER', [value]);
+  }
+
+  /** Removes leading and trailing whitespace */
+  trim<V extends TextExpression<Client, M>>(
+    value: V
+  ): ValueRef<ExpressionType<V>> {
+    return this.call('BTRIM', [value]);
+  }
+
+  /** Joins values as text, skipping nulls */
+  concat(
+    ...values: Array<TextExpression<Client, M> | NumberExpression<Client, M>>
+  ): ValueRef<string> {
+    return this.call('CONCAT', values);
+  }
+
+  /** The value, or `fallback` when it's null */
+  coalesce<V>(
+    value: V,
+    fallback: Expression<Client, M, NonNullable<ExpressionType<V>>>
+  ): ValueRef<NonNullable<ExpressionType<V>>> {
+    return this.call('COALESCE', [value, fallback]);
+  }
+
+  add<
+    A extends NumberExpression<Client, M>,
+    B extends NumberExpression<Client, M>
+  >(a: A, b: B): ValueRef<ExpressionType<A> | ExpressionType<B>> {
+    return this.arithmetic('+', a, b);
+  }
+
+  subtract<
+    A extends NumberExpression<Client, M>,
+    B extends NumberExpression<Client, M>
+  >(a: A, b: B): ValueRef<ExpressionType<A> | ExpressionType<B>> {
+    return this.arithmetic('-', a, b);
+  }
+
+  multiply<
+    A extends NumberExpression<Client, M>,
+    B extends NumberExpression<Client, M>
+  >(a: A, b: B): ValueRef<ExpressionType<A> | ExpressionType<B>> {
+    return this.arithmetic('*', a, b);
+  }
+
+  private call<T>(name: string, args: unknown[]): ValueRef<T> {
+    return new ValueRef(() => `${name}(${args.map(expressionSQL).join(', ')})`);
+  }
+
+  private arithmetic<T>(op: string, a: unknown, b: unknown): ValueRef<T> {
+    return new ValueRef(
+      () => `(${expressionSQL(a)} ${op} ${expressionSQL(b)})`
+    );
+  }
+
+  // `= NULL` is never true, so null is compared with IS NULL
+  private equals<F extends ModelField<Client, M>>(
+    ref: FieldRef<Client, M, F>,
+    value: FieldType<Client, M, F>
+  ): string {
+    return (value === null ? ref.isNull() : ref.eq(value)).toSQL();
+  }
+
+  private distinct(field: ModelField<Client, M>): string {
+    const column = quoteIdent(this.column(field));
+    return `OLD.${column} IS DISTINCT FROM NEW.${column}`;
+  }
+
+  // Picks the SQL for the trigger's events: the UPDATE form, the INSERT form
+  // (which can't reference OLD), or a TG_OP switch when both can fire
+  private transition(update: string, insert: string): Condition {
+    const events = this.events ?? [];
+    let sql = update;
+
+    if (events.includes('INSERT')) {
+      if (events.every((event) => event === 'INSERT')) {
+        sql = insert;
+      } else {
+        this.guarded = true;
+        sql = `CASE WHEN TG_OP = 'INSERT' THEN ${insert} ELSE ${update} END`;
+      }
+    }
+
+    return { toSQL: () => sql as ConditionSQL };
+  }
+
+  private column(field: ModelField<Client, M>): string {
+    return this.model
+      ? getColumnName(String(this.model), String(field))
+      : String(field);
+  }
 }
 
-// Factory that creates a typed condition builder
-export function createConditions<
+// Values to compare a list field with; never for other fields, so array
+// operators can't be called on them
+type ListValues<T> = NonNullable<T> extends readonly (infer U)[] ? U[] : never;
+
+// Resolves to P for list fields and to N for everything else
+type IfList<T, P, N = never> =
+  NonNullable<T> extends readonly unknown[] ? P : N;
+
+// Resolves to P for Json fields and to N for everything else
+type IfJson<T, P, N = never> =
+  { [key: string]: any } extends NonNullable<T> ? P : N;
+
+// Values a JSON path can be compared with
+export type JsonScalar = string | number | boolean | Date;
+
+// Refs to the fields whose values fit in T
+export type FieldRefOf<Client, M extends ModelName<Client>, T> = {
+  [F in ModelField<Client, M>]: FieldType<Client, M, F> extends T
+    ? FieldRef<Client, M, F>
+    : never;
+}[ModelField<Client, M>];
+
+// A literal, a field or a computed value of type T
+export type Expression<Client, M extends ModelName<Client>, T> =
+  T | ValueRef<T> | FieldRefOf<Client, M, T>;
+
+// The type of value an expression produces
+export type ExpressionType<V> =
+  V extends FieldRef<infer C, infer N, infer F>
+    ? N extends ModelName<C>
+      ? F extends ModelField<C, N>
+        ? FieldType<C, N, F>
+        : never
+      : never
+    : V extends ValueRef<infer T>
+      ? T
+      : V;
+
+type TextExpression<Client, M extends ModelName<Client>> = Expression<
   Client,
-  M extends ModelName<Client>
->(): ConditionBuilder<Client, M> {
-  return new ConditionBuilder<Client, M>();
+  M,
+  string | null
+>;
+
+type NumberExpression<Client, M extends ModelName<Client>> = Expression<
+  Client,
+  M,
+  number | bigint | null
+>;
+
+// The SQL for a literal, field or computed value. Dates are left untyped so
+// Postgres reads them as whatever they're compared with or assigned to.
+export function expressionSQL(value: unknown): string {
+  if (value instanceof FieldRef || value instanceof ValueRef) {
+    return value.toSQL();
+  }
+  if (value === null || value === undefined) return 'NULL';
+
+  switch (typeof value) {
+    case 'string':
+      return quoteLiteral(value);
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Can't use ${value} in SQL; it isn't a finite number`);
+      }
+      return String(value);
+    case 'bigint':
+      return String(value);
+    case 'boolean':
+      return value ? 'TRUE' : 'FALSE';
+  }
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      throw new Error("Can't use an invalid Date in SQL");
+    }
+    return quoteLiteral(value.toISOString());
+  }
+
+  if (value instanceof Uint8Array) {
+    return `${quoteLiteral(`\\x${Buffer.from(value).toString('hex')}`)}::bytea`;
+  }
+
+  throw new Error(`Can't use a value of type ${typeof value} in SQL`);
+}
+
+// An untyped array literal like '{"a","b"}', so Postgres coerces it to the
+// column's element type (including enums) instead of assuming text[]
+export function arrayLiteral(values: unknown[]): string {
+  const elements = values.map((value) => {
+    if (value === null || value === undefined) return 'NULL';
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return `"${text.replace(/["\\]/g, '\\$&')}"`;
+  });
+  return quoteLiteral(`{${elements.join(',')}}`);
+}
+
+// Reads a JSON path as text, cast to match the value it's compared with
+function jsonPath(column: string, keys: string[], value?: JsonScalar): string {
+  const path = `${column} #>> ARRAY[${keys.map(quoteLiteral).join(', ')}]`;
+
+  if (typeof value === 'number') return `(${path})::numeric`;
+  if (typeof value === 'boolean') return `(${path})::boolean`;
+  if (value instanceof Date) return `(${path})::timestamptz`;
+  return `(${path})`;
 }
 
-// For SQL templates - just use string since full type safety would require parsing SQL
-export function sql(strings: TemplateStringsArray, ...values: any[]): string {
+// Escapes the LIKE wildcards so a value matches literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+// Factory that creates a typed condition builder
+export function createConditions<Client, M extends ModelName<Client>>(
+  model?: M,
+  events?: readonly TriggerOperation[]
+): ConditionBuilder<Client, M> {
+  return new ConditionBuilder<Client, M>(model, events);
+}
+
+// A piece of SQL built with the `sql` tag. It's a Condition, so it can be
+// passed to `when` or combined with c.and/c.or.
+export class SqlFragment implements Condition {
+  constructor(private readonly text: string) {}
+
+  toSQL(): ConditionSQL {
+    return this.text as ConditionSQL;
+  }
+}
+
+// Values the `sql` tag can embed. Arrays become `(a, b)` lists for IN and
+// plain objects become JSONB.
+export type SqlValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | null
+  | undefined
+  | Date
+  | Uint8Array
+  | Condition
+  | FieldRef<any, any, any>
+  | SqlValue[]
+  | { [key: string]: unknown };
+
+function embed(value: unknown, position: number, nested = false): string {
+  const reject = (reason: string): never => {
+    throw new Error(`sql: can't safely embed value ${position}: ${reason}`);
+  };
+
+  if (value === null || value === undefined) return 'NULL';
+  if (value instanceof FieldRef || value instanceof SqlFragment) {
+    return value.toSQL();
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return quoteLiteral(value);
+    case 'number':
+      return Number.isFinite(value) ? String(value) : reject(String(value));
+    case 'bigint':
+      return String(value);
+    case 'boolean':
+      return value ? 'TRUE' : 'FALSE';
+    case 'object':
+      break;
+    default:
+      return reject(`unsupported type ${typeof value}`);
+  }
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) reject('invalid Date');
+    return `${quoteLiteral(value.toISOString())}::timestamptz`;
+  }
+
+  if (value instanceof Uint8Array) {
+    return `${quoteLiteral(`\\x${Buffer.from(value).toString('hex')}`)}::bytea`;
+  }
+
+  if (Array.isArray(value)) {
+    if (nested) reject('nested arrays');
+    // `x IN (NULL)` matches nothing, like an empty list should
+    if (value.length === 0) return '(NULL)';
+    return `(${value.map((v) => embed(v, position, true)).join(', ')})`;
+  }
+
+  if (typeof (value as Condition).toSQL === 'function') {
+    return `(${(value as Condition).toSQL()})`;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype === Object.prototype || prototype === null) {
+    return json(value).toSQL();
+  }
+
+  return reject(`unsupported object ${prototype?.constructor?.name ?? ''}`);
+}
+
+function sqlTag(
+  strings: TemplateStringsArray,
+  ...values: SqlValue[]
+): SqlFragment {
   let result = strings[0];
 
   for (let i = 0; i < values.length; i++) {
-    const value = values[i];
-
-    if (value === null || value === undefined) {
-      result += 'NULL';
-    } else if (typeof value === 'string') {
-      result += `'${value.replace(/'/g, "''")}'`;
-    } else if (typeof value === 'boolean') {
-      result += value ? 'TRUE' : 'FALSE';
-    } else if (value instanceof Date) {
-      result += `'${value.toISOString()}'::timestamp`;
-    } else if (Array.isArray(value)) {
-      result +=
-        '(' +
-        value
-          .map((v) =>
-            typeof v === 'string' ? `'${v.replace(/'/g, "''")}'` : String(v)
-          )
-          .join(', ') +
-        ')';
-    } else {
-      result += String(value);
-    }
+    result += embed(values[i], i + 1) + strings[i + 1];
+  }
+
+  return new SqlFragment(result);
+}
 
-    result += strings[i + 1];
+// A quoted identifier; several parts are joined with dots. Quoting is
+// case-sensitive, so write NEW and OLD outside it.
+function identifier(...parts: string[]): SqlFragment {
+  if (parts.length === 0) {
+    throw new Error('sql.identifier() needs at least one part');
   }
+  return new SqlFragment(parts.map(quoteIdent).join('.'));
+}
+
+// SQL inserted verbatim. Never pass user input.
+function raw(text: string): SqlFragment {
+  return new SqlFragment(text);
+}
 
-  return result;
+// A value as JSONB, for arrays and anything else JSON.stringify accepts
+function json(value: unknown): SqlFragment {
+  const text = JSON.stringify(value);
+  if (text === undefined) {
+    throw new Error(`sql.json() can't serialize ${typeof value}`);
+  }
+  return new SqlFragment(`${quoteLiteral(text)}::jsonb`);
 }
+
+/**
+ * Template tag for raw conditions. Interpolated values are escaped by type,
+ * and values that can't be escaped safely throw.
+ *
+ * ```
+ * .when(sql`NEW.${sql.identifier('data')} @> ${{ featured: true }}`)
+ * ```
+ */
+export const sql = Object.assign(sqlTag, { identifier, raw, json });
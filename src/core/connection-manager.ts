@@ -1,7 +1,14 @@
 // src/core/connection-manager.ts
 import postgres from 'postgres';
 import { EventEmitter } from 'events';
-import { TriggerPlugin, TriggerEvent } from '../types';
+import {
+  TriggerPlugin,
+  TriggerEvent,
+  ReconnectingEvent,
+  ReconnectedEvent
+} from '../types';
+import { OVERFLOW_TABLE, isOverflowReference } from './overflow';
+import { isOutboxSignal } from './outbox';
 
 export interface ConnectionOptions {
   url: string;
@@ -9,25 +16,53 @@ export interface ConnectionOptions {
   lazy?: boolean;
   autoCleanup?: boolean;
   connectionPool?: {
+    /** @deprecated Ignored; the listener is always a single connection */
     listener?: number;
     transaction?: number;
   };
+  reconnect?: {
+    initialDelay?: number;
+    maxDelay?: number;
+  };
 }
 
-type NotificationHandler = (payload: string) => void | Promise<void>;
+// Default backoff for re-establishing a dropped listener connection (ms)
+const RECONNECT_INITIAL_DELAY = 100;
+const RECONNECT_MAX_DELAY = 30_000;
+
+export type NotificationHandler = (payload: string) => void | Promise<void>;
+
+interface PreparedNotification {
+  event: any;
+  outboxSignal: boolean;
+  startTime: number;
+}
+
+// Calls a handler, turning synchronous throws into rejections
+function run(handler: NotificationHandler, payload: string): Promise<void> {
+  return new Promise((resolve) => resolve(handler(payload)));
+}
 
 interface ChannelSubscription {
   handlers: Set<NotificationHandler>;
-  listenRequest?: postgres.ListenRequest;
+  listening: postgres.ListenRequest;
+}
+
+// A dropped listener connection being re-established
+interface Reconnect {
+  attempt: number;
+  pending: Set<string>; // Channels not listened to again yet
 }
 
 export class ConnectionManager extends EventEmitter {
   private listenerConnection?: postgres.Sql;
   private transactionConnection?: postgres.Sql;
   private channels = new Map<string, ChannelSubscription>();
+  private preparing = new Map<string, Promise<void>>();
   private plugins: TriggerPlugin[] = [];
   private disposed = false;
   private cleanupTasks = new Set<() => Promise<void>>();
+  private reconnecting?: Reconnect;
 
   constructor(private options: ConnectionOptions) {
     super();
@@ -57,10 +92,15 @@ export class ConnectionManager extends EventEmitter {
     }
 
     if (!this.listenerConnection) {
+      // LISTEN state belongs to a session, so this is always one connection.
+      // sql.listen() re-issues LISTEN itself after the connection drops;
+      // backoff paces those attempts.
       this.listenerConnection = postgres(this.options.url, {
-        max: this.options.connectionPool?.listener ?? 1,
+        max: 1,
         idle_timeout: 0, // Keep alive for LISTEN
-        onnotice: (notice) => this.emit('notice', notice)
+        max_lifetime: null,
+        onnotice: (notice) => this.emit('notice', notice),
+        backoff: (retries) => this.handleListenerClose(retries)
       });
 
       this.cleanupTasks.add(async () => {
@@ -101,17 +141,30 @@ export class ConnectionManager extends EventEmitter {
     let subscription = this.channels.get(channel);
 
     if (!subscription) {
-      subscription = { handlers: new Set() };
-      this.channels.set(channel, subscription);
-
       // Start listening
       const sql = this.getListenerConnection();
-      subscription.listenRequest = sql.listen(channel, async (payload) => {
-        await this.handleNotification(channel, payload);
-      });
+      subscription = {
+        handlers: new Set(),
+        listening: sql.listen(
+          channel,
+          (payload) => void this.handleNotification(channel, payload),
+          () => this.handleListen(channel)
+        )
+      };
+      this.channels.set(channel, subscription);
     }
 
     subscription.handlers.add(handler);
+
+    try {
+      await subscription.listening;
+    } catch (error) {
+      subscription.handlers.delete(handler);
+      if (subscription.handlers.size === 0) {
+        this.channels.delete(channel);
+      }
+      throw error;
+    }
   }
 
   async unsubscribe(
@@ -128,35 +181,147 @@ export class ConnectionManager extends EventEmitter {
     }
 
     if (subscription.handlers.size === 0) {
-      if (subscription.listenRequest) {
-        try {
-          const meta = await subscription.listenRequest;
-          await meta.unlisten();
-        } catch (error) {
-          this.emit('error', error);
-        }
-      }
       this.channels.delete(channel);
+      this.settleReconnect(channel);
+
+      try {
+        const meta = await subscription.listening;
+        await meta.unlisten();
+      } catch (error) {
+        this.emit('error', error);
+      }
     }
   }
 
+  /**
+   * Called by postgres.js with the backoff before it reconnects a closed
+   * listener connection. Notifications sent while disconnected are lost;
+   * the `reconnected` event lets outbox triggers catch up on them.
+   *
+   * @returns the delay in seconds
+   */
+  private handleListenerClose(retries: number): number {
+    const initialDelay =
+      this.options.reconnect?.initialDelay ?? RECONNECT_INITIAL_DELAY;
+    const maxDelay = this.options.reconnect?.maxDelay ?? RECONNECT_MAX_DELAY;
+    // retries counts failed attempts and is 0 right after a drop
+    const attempt = retries + 1;
+    const delay = Math.min(initialDelay * 2 ** retries, maxDelay);
+
+    if (!this.disposed && this.channels.size > 0) {
+      if (this.reconnecting) {
+        this.reconnecting.attempt = attempt;
+      } else {
+        this.reconnecting = {
+          attempt,
+          pending: new Set(this.channels.keys())
+        };
+      }
+      const reconnecting: ReconnectingEvent = { attempt, delay };
+      this.emit('reconnecting', reconnecting);
+    }
+
+    return delay / 1000;
+  }
+
+  // Called each time LISTEN succeeds on a channel, including re-listens
+  private handleListen(channel: string): void {
+    this.settleReconnect(channel);
+  }
+
+  // Marks a channel as no longer awaited by a reconnect, reporting the
+  // reconnect once none are left
+  private settleReconnect(channel: string): void {
+    const reconnect = this.reconnecting;
+    if (!reconnect) return;
+
+    reconnect.pending.delete(channel);
+    if (reconnect.pending.size > 0) return;
+
+    this.reconnecting = undefined;
+    const reconnected: ReconnectedEvent = {
+      attempt: reconnect.attempt,
+      channels: Array.from(this.channels.keys())
+    };
+    this.emit('reconnected', reconnected);
+  }
+
   private async handleNotification(
     channel: string,
     payload: string
   ): Promise<void> {
+    if (!this.channels.has(channel)) return;
+
+    // Preparing an event can await an overflow fetch and plugin hooks, so
+    // chain it per channel to reach handlers in the order events committed
+    const previous = this.preparing.get(channel) ?? Promise.resolve();
+    const ready = previous.then(() => this.prepareNotification(payload));
+    const tail = ready.then(
+      () => undefined,
+      () => undefined
+    );
+    this.preparing.set(channel, tail);
+    void tail.then(() => {
+      if (this.preparing.get(channel) === tail) {
+        this.preparing.delete(channel);
+      }
+    });
+
+    let prepared: PreparedNotification;
+    try {
+      prepared = await ready;
+    } catch (error) {
+      this.emit('error', error);
+      return;
+    }
+
     const subscription = this.channels.get(channel);
     if (!subscription) return;
+    const handlers = Array.from(subscription.handlers);
+
+    // Outbox wake-ups carry no event; subscribers drain the outbox and
+    // deliver each queued event themselves
+    if (prepared.outboxSignal) {
+      await Promise.allSettled(
+        handlers.map((handler) => run(handler, payload))
+      );
+      return;
+    }
+
+    await this.dispatch(channel, prepared.event, handlers, prepared.startTime);
+  }
 
+  private async prepareNotification(
+    payload: string
+  ): Promise<PreparedNotification> {
     const startTime = Date.now();
     let parsedPayload: any;
 
     try {
       parsedPayload = JSON.parse(payload);
     } catch (error) {
-      this.emit('error', new Error(`Failed to parse notification: ${error}`));
-      return;
+      throw new Error(`Failed to parse notification: ${error}`);
+    }
+
+    // Oversized payloads arrive as a reference to the overflow table
+    if (isOverflowReference(parsedPayload)) {
+      parsedPayload = await this.fetchOverflowPayload(parsedPayload.__overflow);
+    }
+
+    if (isOutboxSignal(parsedPayload)) {
+      return { event: parsedPayload, outboxSignal: true, startTime };
     }
 
+    return {
+      event: await this.runBeforeNotification(parsedPayload),
+      outboxSignal: false,
+      startTime
+    };
+  }
+
+  private async runBeforeNotification(event: any): Promise<any> {
+    let parsedPayload = event;
+
     // Run plugin hooks
     for (const plugin of this.plugins) {
       if (plugin.beforeNotification) {
@@ -164,11 +329,35 @@ export class ConnectionManager extends EventEmitter {
       }
     }
 
+    return parsedPayload;
+  }
+
+  /**
+   * Runs plugin hooks and handlers for an event payload
+   *
+   * @returns true when every handler succeeded
+   */
+  async deliver(
+    channel: string,
+    event: any,
+    handlers: NotificationHandler[]
+  ): Promise<boolean> {
+    const startTime = Date.now();
+    const parsedPayload = await this.runBeforeNotification(event);
+    return this.dispatch(channel, parsedPayload, handlers, startTime);
+  }
+
+  // Handlers are started synchronously, in order, before anything is awaited
+  private async dispatch(
+    channel: string,
+    parsedPayload: any,
+    handlers: NotificationHandler[],
+    startTime: number
+  ): Promise<boolean> {
     // Process handlers concurrently
+    const serialized = JSON.stringify(parsedPayload);
     const results = await Promise.allSettled(
-      Array.from(subscription.handlers).map((handler) =>
-        Promise.resolve(handler(JSON.stringify(parsedPayload)))
-      )
+      handlers.map((handler) => run(handler, serialized))
     );
 
     const duration = Date.now() - startTime;
@@ -188,6 +377,23 @@ export class ConnectionManager extends EventEmitter {
         errors: failures.map((f) => (f as PromiseRejectedResult).reason)
       });
     }
+
+    return failures.length === 0;
+  }
+
+  private async fetchOverflowPayload(id: string | number): Promise<any> {
+    const sql = this.getTransactionConnection();
+    const rows = await sql<{ payload: any }[]>`
+      SELECT payload FROM ${sql(OVERFLOW_TABLE)} WHERE id = ${id}
+    `;
+
+    if (rows.length === 0) {
+      throw new Error(
+        `Overflowed notification payload ${id} no longer exists in ${OVERFLOW_TABLE}`
+      );
+    }
+
+    return rows[0].payload;
   }
 
   async runPluginHook<T>(hookName: keyof TriggerPlugin, data: T): Promise<T> {
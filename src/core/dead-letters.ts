@@ -0,0 +1,84 @@
+// src/core/dead-letters.ts
+
+/**
+ * Table that keeps events whose handlers failed every retry
+ */
+export const DEAD_LETTER_TABLE = 'pg_typesafe_triggers_dead_letters';
+
+/**
+ * How many dead letters are replayed per transaction
+ */
+export const DEAD_LETTER_BATCH_SIZE = 100;
+
+/**
+ * How long a replay reserves the dead letters it claimed (ms). Rows of a
+ * replay that died midway can be replayed again once this runs out.
+ */
+export const DEAD_LETTER_LEASE = 5 * 60_000;
+
+/**
+ * A dead letter as stored in the dead-letter table
+ */
+export interface DeadLetterRow {
+  id: string;
+  payload: any;
+  attempts: number;
+  handlers: string[] | null;
+}
+
+/**
+ * SQL that creates the dead-letter table if it does not exist yet
+ */
+export function buildDeadLetterTableSQL(): string {
+  return `
+CREATE TABLE IF NOT EXISTS "${DEAD_LETTER_TABLE}" (
+  id BIGSERIAL PRIMARY KEY,
+  trigger_name TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  errors TEXT[] NOT NULL,
+  attempts INTEGER NOT NULL,
+  handlers TEXT[],
+  claimed_until TIMESTAMPTZ,
+  failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Tables created before handlers were recorded replay every handler
+ALTER TABLE "${DEAD_LETTER_TABLE}"
+  ADD COLUMN IF NOT EXISTS handlers TEXT[],
+  ADD COLUMN IF NOT EXISTS claimed_until TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS "${DEAD_LETTER_TABLE}_trigger_idx"
+  ON "${DEAD_LETTER_TABLE}" (trigger_name, id);
+`.trim();
+}
+
+/**
+ * A handler that still failed after its last attempt
+ */
+export interface HandlerFailure {
+  id?: string;
+  error: unknown;
+}
+
+/**
+ * The ids of the failed handlers to store with a dead letter. Without an id
+ * a handler can't be picked out again, so then every handler is replayed.
+ */
+export function failedHandlerIds(failures: HandlerFailure[]): string[] | null {
+  const ids = failures.map((failure) => failure.id);
+  if (ids.some((id) => id === undefined)) return null;
+  return Array.from(new Set(ids as string[]));
+}
+
+/**
+ * Milliseconds to wait before retry number `attempt` (1 for the first retry).
+ * A number is the initial delay and doubles on every retry.
+ */
+export function retryDelay(
+  backoff: number | ((attempt: number) => number) | undefined,
+  attempt: number
+): number {
+  if (typeof backoff === 'function') return backoff(attempt);
+  return (backoff ?? 0) * 2 ** (attempt - 1);
+}
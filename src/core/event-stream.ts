@@ -0,0 +1,118 @@
+// src/core/event-stream.ts
+import { EventStreamOptions, SubscribeOptions } from '../types';
+
+/**
+ * How many events an iterator buffers before holding up delivery
+ */
+export const DEFAULT_EVENT_BUFFER_SIZE = 100;
+
+type Subscribe<T> = (
+  handler: (event: T) => Promise<void>,
+  options: SubscribeOptions<T>
+) => () => void;
+
+/**
+ * Adapts a handler subscription to an async iterator. Events are buffered up
+ * to `bufferSize`; once the buffer is full the handler waits for the consumer
+ * to catch up, which pauses outbox draining. NOTIFY delivery can't be paused,
+ * so there later events queue in memory behind the waiting handler. Calls to
+ * `next()` made before events arrive are answered in order. Breaking out of
+ * a `for await` loop unsubscribes and discards anything still buffered.
+ */
+export function createEventIterator<T>(
+  subscribe: Subscribe<T>,
+  options: EventStreamOptions = {}
+): AsyncIterableIterator<T> {
+  const bufferSize = Math.max(
+    1,
+    options.bufferSize ?? DEFAULT_EVENT_BUFFER_SIZE
+  );
+  const buffer: T[] = [];
+  const spaceWaiters: Array<() => void> = [];
+  const waiters: Array<(result: IteratorResult<T>) => void> = [];
+  let closed = false;
+
+  // Serial so events are buffered in order and at most one waits for space
+  const unsubscribe = subscribe(
+    async (event) => {
+      if (closed) return;
+
+      const waiter = waiters.shift();
+      if (waiter) {
+        waiter({ value: event, done: false });
+        return;
+      }
+
+      buffer.push(event);
+      if (buffer.length >= bufferSize) {
+        await new Promise<void>((resolve) => spaceWaiters.push(resolve));
+      }
+    },
+    { concurrency: 'serial' }
+  );
+
+  const finished: IteratorReturnResult<undefined> = {
+    value: undefined,
+    done: true
+  };
+
+  const close = (): void => {
+    if (closed) return;
+
+    closed = true;
+    unsubscribe();
+    buffer.length = 0;
+    spaceWaiters.splice(0).forEach((resolve) => resolve());
+    waiters.splice(0).forEach((resolve) => resolve(finished));
+  };
+
+  return {
+    next(): Promise<IteratorResult<T>> {
+      if (buffer.length > 0) {
+        const value = buffer.shift()!;
+        spaceWaiters.shift()?.();
+        return Promise.resolve({ value, done: false });
+      }
+
+      if (closed) return Promise.resolve(finished);
+
+      return new Promise((resolve) => waiters.push(resolve));
+    },
+
+    return(): Promise<IteratorResult<T>> {
+      close();
+      return Promise.resolve(finished);
+    },
+
+    [Symbol.asyncIterator]() {
+      return this;
+    }
+  };
+}
+
+/**
+ * Wraps an event iterator in a web ReadableStream. The stream pulls one event
+ * at a time, so the iterator's buffer is the only one; cancelling the stream
+ * closes the iterator.
+ */
+export function toReadableStream<T>(
+  iterator: AsyncIterableIterator<T>
+): ReadableStream<T> {
+  return new ReadableStream<T>(
+    {
+      async pull(controller) {
+        const result = await iterator.next();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      },
+
+      async cancel() {
+        await iterator.return?.();
+      }
+    },
+    { highWaterMark: 0 }
+  );
+}
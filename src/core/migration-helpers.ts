@@ -1,7 +1,16 @@
 // src/core/migration-helpers.ts
 import postgres from 'postgres';
 import { ConnectionManager } from './connection-manager';
+import { buildNotifyFunctionSQL } from './notify-function';
+import { buildOverflowTableSQL } from './overflow';
 import { TriggerConfiguration } from '../types/core-extended';
+import {
+  deferrableClause,
+  generatedIdent,
+  quoteIdent,
+  quoteLiteral,
+  truncateIdentifier
+} from '../utils/sql';
 
 export interface TriggerInfo {
   name: string;
@@ -14,6 +23,10 @@ export interface TriggerInfo {
   forEach: string;
   enabled: boolean;
   definition: string;
+  /** Created with CREATE CONSTRAINT TRIGGER */
+  constraint: boolean;
+  deferrable: boolean;
+  initiallyDeferred: boolean;
 }
 
 export interface MigrationSQL {
@@ -68,7 +81,10 @@ export class MigrationHelper {
           WHEN t.tgtype & 1 = 1 THEN 'ROW'
           ELSE 'STATEMENT'
         END as "forEach",
-        t.tgenabled = 'O' as enabled
+        t.tgenabled = 'O' as enabled,
+        t.tgconstraint <> 0 as constraint,
+        t.tgdeferrable as deferrable,
+        t.tginitdeferred as "initiallyDeferred"
       FROM pg_trigger t
       JOIN pg_class c ON t.tgrelid = c.oid
       JOIN pg_namespace n ON c.relnamespace = n.oid
@@ -113,47 +129,26 @@ export class MigrationHelper {
       functionMap.get(funcName)!.add(trigger.channelName || trigger.modelName);
     }
 
+    // Notification functions spill oversized payloads into this table
+    if (functionMap.size > 0) {
+      upStatements.push(
+        `-- Create notification overflow table\n${buildOverflowTableSQL()}`
+      );
+    }
+
     // Generate function creation SQL
     for (const [funcName, channels] of functionMap) {
       const channel = Array.from(channels)[0]; // Primary channel
 
       upStatements.push(
-        `
--- Create notification function: ${funcName}
-CREATE OR REPLACE FUNCTION ${funcName}()
-RETURNS TRIGGER AS $$
-DECLARE
-  payload JSONB;
-  channel TEXT := '${channel}';
-BEGIN
-  -- Build payload based on operation
-  IF TG_OP = 'INSERT' OR TG_OP = 'UPDATE' THEN
-    payload = to_jsonb(NEW);
-  ELSEIF TG_OP = 'DELETE' THEN
-    payload = to_jsonb(OLD);
-  END IF;
-
-  -- Send notification
-  PERFORM pg_notify(channel, jsonb_build_object(
-    'operation', TG_OP,
-    'timestamp', NOW(),
-    'table', TG_TABLE_NAME,
-    'schema', TG_TABLE_SCHEMA,
-    'data', payload
-  )::TEXT);
-  
-  -- Return appropriate record
-  IF TG_OP = 'DELETE' THEN
-    RETURN OLD;
-  ELSE
-    RETURN NEW;
-  END IF;
-END;
-$$ LANGUAGE plpgsql;
-      `.trim()
+        `-- Create notification function: ${funcName}\n${buildNotifyFunctionSQL(
+          { functionName: funcName, channel }
+        )}`
       );
 
-      downStatements.push(`DROP FUNCTION IF EXISTS ${funcName}();`);
+      downStatements.push(
+        `DROP FUNCTION IF EXISTS ${generatedIdent(funcName)}();`
+      );
     }
 
     // Generate trigger creation SQL
@@ -161,7 +156,7 @@ $$ LANGUAGE plpgsql;
       const sql = this.buildTriggerSQL(trigger);
       upStatements.push(`\n-- Create trigger: ${trigger.triggerName}\n${sql}`);
       downStatements.push(
-        `DROP TRIGGER IF EXISTS "${trigger.triggerName}" ON "${trigger.tableName}";`
+        this.buildDropTriggerSQL(trigger.triggerName, trigger.tableName)
       );
     }
 
@@ -179,8 +174,12 @@ $$ LANGUAGE plpgsql;
     const current = await this.introspect();
 
     const currentMap = new Map(current.map((t) => [`${t.table}.${t.name}`, t]));
+    // Key by the names Postgres stores, which may have been shortened
     const desiredMap = new Map(
-      desired.map((t) => [`${t.tableName}.${t.triggerName}`, t])
+      desired.map((t) => [
+        `${t.tableName}.${truncateIdentifier(t.triggerName)}`,
+        t
+      ])
     );
 
     const added: TriggerConfiguration[] = [];
@@ -226,16 +225,12 @@ $$ LANGUAGE plpgsql;
 
     // Remove triggers
     for (const trigger of diff.removed) {
-      statements.push(
-        `DROP TRIGGER IF EXISTS "${trigger.name}" ON "${trigger.table}";`
-      );
+      statements.push(this.buildDropTriggerSQL(trigger.name, trigger.table));
     }
 
     // Modify triggers (drop and recreate)
     for (const { current, desired } of diff.modified) {
-      statements.push(
-        `DROP TRIGGER IF EXISTS "${current.name}" ON "${current.table}";`
-      );
+      statements.push(this.buildDropTriggerSQL(current.name, current.table));
       statements.push(this.buildTriggerSQL(desired));
     }
 
@@ -316,26 +311,37 @@ $$ LANGUAGE plpgsql;
     }
   }
 
+  private buildDropTriggerSQL(triggerName: string, tableName: string): string {
+    return `DROP TRIGGER IF EXISTS ${generatedIdent(
+      triggerName
+    )} ON ${quoteIdent(tableName)};`;
+  }
+
   private buildTriggerSQL(config: TriggerConfiguration): string {
-    let sql = `CREATE TRIGGER "${config.triggerName}"\n`;
+    const kind = config.constraint ? 'CONSTRAINT TRIGGER' : 'TRIGGER';
+    let sql = `CREATE ${kind} ${generatedIdent(config.triggerName)}\n`;
     sql += `${config.timing} ${config.events.join(' OR ')}\n`;
 
     if (config.updateOfColumns?.length) {
-      sql += `OF ${config.updateOfColumns
-        .map((c: string) => `"${c}"`)
-        .join(', ')}\n`;
+      sql += `OF ${config.updateOfColumns.map(quoteIdent).join(', ')}\n`;
     }
 
-    sql += `ON "${config.tableName}"\n`;
+    sql += `ON ${quoteIdent(config.tableName)}\n`;
+    if (config.constraint) {
+      sql += `${deferrableClause(config.constraint)}\n`;
+    }
     sql += `FOR EACH ${config.forEach || 'ROW'}\n`;
 
     if (config.whenCondition) {
       sql += `WHEN (${config.whenCondition})\n`;
     }
 
-    sql += `EXECUTE FUNCTION ${config.functionName}(${
-      config.functionArgs?.join(', ') || ''
-    });`;
+    // The migration creates every trigger's function
+    sql += `EXECUTE FUNCTION ${generatedIdent(config.functionName)}(${(
+      config.functionArgs ?? []
+    )
+      .map(quoteLiteral)
+      .join(', ')});`;
 
     return sql;
   }
@@ -362,7 +368,25 @@ $$ LANGUAGE plpgsql;
       changes.push('condition changed');
     }
 
-    if (current.function !== desired.functionName) {
+    const constraint = desired.constraint;
+    if (current.constraint !== Boolean(constraint)) {
+      changes.push(
+        constraint
+          ? 'made a constraint trigger'
+          : 'no longer a constraint trigger'
+      );
+    } else if (
+      constraint &&
+      (current.deferrable !==
+        Boolean(constraint.deferrable || constraint.initiallyDeferred) ||
+        current.initiallyDeferred !== Boolean(constraint.initiallyDeferred))
+    ) {
+      changes.push(
+        `deferral: ${deferralOf(current)} → ${deferrableClause(constraint)}`
+      );
+    }
+
+    if (current.function !== truncateIdentifier(desired.functionName)) {
       changes.push(`function: ${current.function} → ${desired.functionName}`);
     }
 
@@ -385,3 +409,11 @@ $$ LANGUAGE plpgsql;
     return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
   }
 }
+
+// The DEFERRABLE clause an introspected constraint trigger was created with
+function deferralOf(trigger: TriggerInfo): string {
+  return deferrableClause({
+    deferrable: trigger.deferrable,
+    initiallyDeferred: trigger.initiallyDeferred
+  });
+}
@@ -0,0 +1,346 @@
+// src/core/notify-function.ts
+import {
+  MAX_NOTIFY_PAYLOAD_BYTES,
+  OVERFLOW_RETENTION,
+  OVERFLOW_TABLE
+} from './overflow';
+import { DeliveryMode, OUTBOX_TABLE } from './outbox';
+import {
+  generatedIdent,
+  quoteIdent,
+  quoteLiteral,
+  truncateIdentifier
+} from '../utils/sql';
+import type { TriggerOperation } from '../types';
+
+/**
+ * Names the transition tables of statement-level triggers are referenced by
+ */
+export const NEW_ROWS_TABLE = 'new_rows';
+export const OLD_ROWS_TABLE = 'old_rows';
+
+/**
+ * Options for generating a notification trigger function
+ */
+export interface NotifyFunctionOptions {
+  /** Name of the PostgreSQL function to create */
+  functionName: string;
+
+  /** Channel the payload is sent to with pg_notify */
+  channel: string;
+
+  /** Skip the notification when an UPDATE changes no columns */
+  onlyIfChanged?: boolean;
+
+  /** Restrict the payload to these fields instead of the whole row */
+  columns?: ProjectedColumn[];
+
+  /** Send the payload directly or queue it in the outbox table */
+  delivery?: DeliveryMode;
+
+  /** Columns sent as text because JSON numbers would lose precision */
+  textColumns?: TextColumn[];
+
+  /** A condition checked in the function, for conditions that use TG_OP */
+  condition?: string;
+
+  /** Send one event per statement with every row it changed */
+  statement?: StatementBatch;
+}
+
+/**
+ * How a statement-level trigger batches the rows of its transition tables
+ */
+export interface StatementBatch {
+  /** The trigger's only event; transition tables allow just one */
+  operation: TriggerOperation;
+
+  /** Columns that pair up the old and new versions of updated rows */
+  idColumns: string[];
+}
+
+/**
+ * A field sent in the payload and the table column it is read from
+ */
+export interface ProjectedColumn {
+  field: string;
+  column: string;
+}
+
+/**
+ * A column whose value is sent as text, such as BIGINT or NUMERIC
+ */
+export interface TextColumn {
+  column: string;
+  isList: boolean;
+}
+
+/**
+ * Builds the JSONB expression for a row, either whole or projected
+ */
+function rowToJSON(
+  record: string,
+  columns: ProjectedColumn[] | undefined,
+  textColumns: TextColumn[] = []
+): string {
+  const value = (column: string): string => {
+    const text = textColumns.find((c) => c.column === column);
+    if (!text) return `${record}.${quoteIdent(column)}`;
+    return `${record}.${quoteIdent(column)}::${text.isList ? 'TEXT[]' : 'TEXT'}`;
+  };
+
+  if (!columns || columns.length === 0) {
+    if (textColumns.length === 0) {
+      return `to_jsonb(${record})`;
+    }
+
+    // Replace the numeric values with their exact text
+    const overrides = textColumns
+      .map(({ column }) => `${quoteLiteral(column)}, ${value(column)}`)
+      .join(', ');
+    return `to_jsonb(${record}) || jsonb_build_object(${overrides})`;
+  }
+
+  const pairs = columns
+    .map(({ field, column }) => `${quoteLiteral(field)}, ${value(column)}`)
+    .join(', ');
+  return `jsonb_build_object(${pairs})`;
+}
+
+/**
+ * Builds the SQL for a trigger function that publishes row changes with
+ * pg_notify. The payload always carries the affected row in `data`; UPDATE
+ * and DELETE payloads also carry the previous row in `old`, and UPDATE
+ * payloads carry a `changes` map of `{ field: { from, to } }`.
+ *
+ * Payloads over the pg_notify size limit are written to the overflow table
+ * and only their id is sent; the connection manager fetches them back. With
+ * outbox delivery every payload is queued in the outbox table and the
+ * notification is only a wake-up signal.
+ *
+ * With `statement`, the function sends one payload per statement instead.
+ */
+export function buildNotifyFunctionSQL(options: NotifyFunctionOptions): string {
+  if (options.statement) {
+    return buildStatementFunctionSQL(options, options.statement);
+  }
+
+  const { functionName, onlyIfChanged, columns, delivery, condition } = options;
+  // Channels are identifiers too, and pg_notify rejects overlong ones
+  const channel = truncateIdentifier(options.channel);
+  const newRow = rowToJSON('NEW', columns, options.textColumns);
+  const oldRow = rowToJSON('OLD', columns, options.textColumns);
+
+  const skipUnmatched = condition
+    ? `
+  -- The condition depends on TG_OP, which a WHEN clause can't see
+  IF NOT COALESCE(${condition}, FALSE) THEN
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+    RETURN NEW;
+  END IF;
+`
+    : '';
+
+  const skipUnchanged = onlyIfChanged
+    ? `
+    -- Nothing changed, so there is nothing to notify about
+    IF changes = '{}'::JSONB THEN
+      RETURN NEW;
+    END IF;`
+    : '';
+
+  return `
+CREATE OR REPLACE FUNCTION ${generatedIdent(functionName)}()
+RETURNS TRIGGER AS $$
+DECLARE
+  payload JSONB;
+  record_data JSONB;
+  old_data JSONB;
+  changes JSONB;
+  payload_text TEXT;
+  overflow_id BIGINT;
+BEGIN${skipUnmatched}
+  -- Get the appropriate records
+  IF TG_OP = 'DELETE' THEN
+    record_data = ${oldRow};
+    old_data = record_data;
+  ELSIF TG_OP = 'UPDATE' THEN
+    record_data = ${newRow};
+    old_data = ${oldRow};
+
+    -- Diff the two rows column by column
+    SELECT COALESCE(
+      jsonb_object_agg(
+        new_col.key,
+        jsonb_build_object('from', old_col.value, 'to', new_col.value)
+      ),
+      '{}'::JSONB
+    )
+    INTO changes
+    FROM jsonb_each(record_data) AS new_col
+    JOIN jsonb_each(old_data) AS old_col ON old_col.key = new_col.key
+    WHERE new_col.value IS DISTINCT FROM old_col.value;
+${skipUnchanged}
+  ELSIF TG_OP = 'INSERT' THEN
+    record_data = ${newRow};
+  ELSE
+    record_data = '{}'::JSONB;
+  END IF;
+
+  -- Build notification payload
+  payload = jsonb_build_object(
+    'operation', TG_OP,
+    'timestamp', NOW(),
+    'table', TG_TABLE_NAME,
+    'schema', TG_TABLE_SCHEMA,
+    'data', record_data
+  );
+
+  IF old_data IS NOT NULL THEN
+    payload = payload || jsonb_build_object('old', old_data);
+  END IF;
+
+  IF changes IS NOT NULL THEN
+    payload = payload || jsonb_build_object('changes', changes);
+  END IF;
+
+  ${delivery === 'outbox' ? queueInOutbox(channel) : sendDirectly(channel)}
+
+  -- Return appropriate record
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  ELSE
+    RETURN NEW;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+`.trim();
+}
+
+/**
+ * The REFERENCING clause that exposes a statement's rows to its trigger
+ */
+export function buildReferencingClause(operation: TriggerOperation): string {
+  switch (operation) {
+    case 'INSERT':
+      return `REFERENCING NEW TABLE AS ${NEW_ROWS_TABLE}`;
+    case 'UPDATE':
+      return `REFERENCING NEW TABLE AS ${NEW_ROWS_TABLE} OLD TABLE AS ${OLD_ROWS_TABLE}`;
+    case 'DELETE':
+      return `REFERENCING OLD TABLE AS ${OLD_ROWS_TABLE}`;
+    default:
+      // TRUNCATE has no rows to reference
+      return '';
+  }
+}
+
+/**
+ * Builds the SQL for a statement-level function that sends every row the
+ * statement changed as one `rows` array, read from the transition tables.
+ * UPDATE rows are sent as `{ old, new }` pairs joined on the id columns.
+ */
+function buildStatementFunctionSQL(
+  options: NotifyFunctionOptions,
+  { operation, idColumns }: StatementBatch
+): string {
+  const { functionName, onlyIfChanged, columns, delivery } = options;
+  const channel = truncateIdentifier(options.channel);
+  const newRow = rowToJSON('n', columns, options.textColumns);
+  const oldRow = rowToJSON('o', columns, options.textColumns);
+
+  let rows: string;
+  switch (operation) {
+    case 'INSERT':
+      rows = `SELECT jsonb_agg(${newRow}) INTO batch FROM ${NEW_ROWS_TABLE} AS n;`;
+      break;
+    case 'DELETE':
+      rows = `SELECT jsonb_agg(${oldRow}) INTO batch FROM ${OLD_ROWS_TABLE} AS o;`;
+      break;
+    case 'UPDATE': {
+      const join = idColumns
+        .map((column) => `n.${quoteIdent(column)} = o.${quoteIdent(column)}`)
+        .join(' AND ');
+      const changed = onlyIfChanged
+        ? `
+  WHERE ${newRow} IS DISTINCT FROM ${oldRow}`
+        : '';
+      rows = `SELECT jsonb_agg(jsonb_build_object('old', ${oldRow}, 'new', ${newRow}))
+  INTO batch
+  FROM ${OLD_ROWS_TABLE} AS o
+  JOIN ${NEW_ROWS_TABLE} AS n ON ${join}${changed};`;
+      break;
+    }
+    default:
+      rows = `batch = '[]'::JSONB;`;
+  }
+
+  return `
+CREATE OR REPLACE FUNCTION ${generatedIdent(functionName)}()
+RETURNS TRIGGER AS $$
+DECLARE
+  payload JSONB;
+  batch JSONB;
+  payload_text TEXT;
+  overflow_id BIGINT;
+BEGIN
+  ${rows}
+
+  -- The trigger fires even for statements that changed no rows
+  IF batch IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  payload = jsonb_build_object(
+    'operation', TG_OP,
+    'timestamp', NOW(),
+    'table', TG_TABLE_NAME,
+    'schema', TG_TABLE_SCHEMA,
+    'rows', batch
+  );
+
+  ${delivery === 'outbox' ? queueInOutbox(channel) : sendDirectly(channel)}
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+`.trim();
+}
+
+/**
+ * Sends the payload with pg_notify, spilling it to the overflow table if needed
+ */
+function sendDirectly(channel: string): string {
+  const literal = quoteLiteral(channel);
+  return `
+  payload_text = payload::TEXT;
+
+  -- Too large for pg_notify, so park it and send a reference instead
+  IF octet_length(payload_text) > ${MAX_NOTIFY_PAYLOAD_BYTES} THEN
+    DELETE FROM "${OVERFLOW_TABLE}"
+    WHERE created_at < NOW() - INTERVAL '${OVERFLOW_RETENTION}';
+
+    INSERT INTO "${OVERFLOW_TABLE}" (channel, payload)
+    VALUES (${literal}, payload)
+    RETURNING id INTO overflow_id;
+
+    payload_text = jsonb_build_object('__overflow', overflow_id)::TEXT;
+  END IF;
+
+  -- Send notification
+  PERFORM pg_notify(${literal}, payload_text);`.trim();
+}
+
+/**
+ * Queues the payload in the outbox table and wakes listeners up
+ */
+function queueInOutbox(channel: string): string {
+  const literal = quoteLiteral(channel);
+  return `
+  -- Queue the event durably; listeners drain the outbox when woken up
+  INSERT INTO "${OUTBOX_TABLE}" (channel, payload)
+  VALUES (${literal}, payload);
+
+  PERFORM pg_notify(${literal}, jsonb_build_object('__outbox', TRUE)::TEXT);`.trim();
+}
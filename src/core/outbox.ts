@@ -0,0 +1,81 @@
+// src/core/outbox.ts
+
+/**
+ * Table that durably queues events for triggers using outbox delivery
+ */
+export const OUTBOX_TABLE = 'pg_typesafe_triggers_outbox';
+
+/**
+ * How many outbox rows a listener claims per transaction
+ */
+export const OUTBOX_BATCH_SIZE = 100;
+
+/**
+ * How long a claimed row is reserved for its listener (ms). Rows of a
+ * listener that died mid-delivery are claimed again once this runs out.
+ */
+export const OUTBOX_LEASE = 5 * 60_000;
+
+/**
+ * Delay before a failed row is delivered again (ms), doubling per attempt
+ * up to OUTBOX_MAX_RETRY_DELAY
+ */
+export const OUTBOX_RETRY_DELAY = 1_000;
+export const OUTBOX_MAX_RETRY_DELAY = 60_000;
+
+/**
+ * How events reach listeners
+ * - `notify`: the payload is sent with pg_notify and lost if nobody is listening
+ * - `outbox`: the payload is stored in the outbox table and NOTIFY only wakes
+ *   listeners up, so events survive listener downtime (at-least-once)
+ */
+export type DeliveryMode = 'notify' | 'outbox';
+
+/**
+ * Notification that tells listeners new rows are waiting in the outbox
+ */
+export interface OutboxSignal {
+  __outbox: true;
+}
+
+/**
+ * A claimed outbox row
+ */
+export interface OutboxRow {
+  id: string;
+  payload: any;
+  attempts: number;
+}
+
+/**
+ * SQL that creates the outbox table if it does not exist yet
+ */
+export function buildOutboxTableSQL(): string {
+  return `
+CREATE TABLE IF NOT EXISTS "${OUTBOX_TABLE}" (
+  id BIGSERIAL PRIMARY KEY,
+  channel TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  claimed_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+-- Tables created before rows were claimed have neither column
+ALTER TABLE "${OUTBOX_TABLE}"
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS claimed_until TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS "${OUTBOX_TABLE}_channel_idx"
+  ON "${OUTBOX_TABLE}" (channel, id);
+`.trim();
+}
+
+/**
+ * Checks whether a parsed notification is an outbox wake-up signal
+ */
+export function isOutboxSignal(value: unknown): value is OutboxSignal {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as OutboxSignal).__outbox === true
+  );
+}
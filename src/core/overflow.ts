@@ -0,0 +1,54 @@
+// src/core/overflow.ts
+
+/**
+ * Table that holds notification payloads too large for pg_notify
+ */
+export const OVERFLOW_TABLE = 'pg_typesafe_triggers_overflow';
+
+/**
+ * Largest payload pg_notify accepts, in bytes (it must be shorter than 8000)
+ */
+export const MAX_NOTIFY_PAYLOAD_BYTES = 7999;
+
+/**
+ * How long overflowed payloads are kept for listeners to fetch
+ */
+export const OVERFLOW_RETENTION = '1 day';
+
+/**
+ * Notification sent in place of a payload that was written to the overflow table
+ */
+export interface OverflowReference {
+  __overflow: string | number;
+}
+
+/**
+ * SQL that creates the overflow table if it does not exist yet
+ */
+export function buildOverflowTableSQL(): string {
+  return `
+CREATE TABLE IF NOT EXISTS "${OVERFLOW_TABLE}" (
+  id BIGSERIAL PRIMARY KEY,
+  channel TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+-- Every overflowing notify deletes expired rows by age
+CREATE INDEX IF NOT EXISTS "${OVERFLOW_TABLE}_created_at_idx"
+  ON "${OVERFLOW_TABLE}" (created_at);
+`.trim();
+}
+
+/**
+ * Checks whether a parsed notification is a reference to an overflowed payload
+ */
+export function isOverflowReference(
+  value: unknown
+): value is OverflowReference {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    '__overflow' in value &&
+    Object.keys(value).length === 1
+  );
+}
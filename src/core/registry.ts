@@ -1,21 +1,30 @@
 // src/core/registry.ts
 import { ConnectionManager } from './connection-manager';
 import { BaseTrigger } from './base-trigger';
+import { createEventIterator, toReadableStream } from './event-stream';
 import {
   Registry,
+  RegistryOptions,
   RegistryStatus,
+  ReplayResult,
+  SubscribeOptions,
+  EventOperation,
+  EventStreamOptions,
   TriggerHandle,
   TriggerConfig,
   TriggerDefinition,
   TriggerEvent,
+  HandleEvent,
   ModelName,
+  ModelField,
+  TriggerForEach,
   TriggerOperation
 } from '../types';
 
 export class TriggerRegistry<Client, TriggerMap = {}>
   implements Registry<Client, TriggerMap>
 {
-  private triggers = new Map<string, TriggerHandle<Client, any>>();
+  private triggers = new Map<string, TriggerHandle<Client, any, any, any, any>>();
   private connectionManager: ConnectionManager;
   private modelToTriggerMap = new Map<string, Set<string>>();
   private triggerIdToModel = new Map<string, string>();
@@ -24,13 +33,27 @@ export class TriggerRegistry<Client, TriggerMap = {}>
     Set<(event: any) => void | Promise<void>>
   >();
 
-  constructor(connectionManager: ConnectionManager) {
+  constructor(
+    connectionManager: ConnectionManager,
+    private options: RegistryOptions = {}
+  ) {
     this.connectionManager = connectionManager;
   }
 
+  // Fills in the registry-wide retry and dead-letter defaults
+  private withDefaults<C extends TriggerConfig<Client, any, any, any>>(
+    config: C
+  ): C {
+    return {
+      ...config,
+      retry: config.retry ?? this.options.retry,
+      deadLetter: config.deadLetter ?? this.options.deadLetter
+    };
+  }
+
   // Original add method - still works with models
   add<M extends ModelName<Client>>(
-    modelOrTrigger: M | TriggerHandle<Client, any>,
+    modelOrTrigger: M | TriggerHandle<Client, any, any, any, any>,
     config?: Omit<TriggerConfig<Client, M>, 'model'>
   ): Registry<Client, TriggerMap> {
     if (typeof modelOrTrigger === 'string') {
@@ -43,7 +66,10 @@ export class TriggerRegistry<Client, TriggerMap = {}>
         model: modelOrTrigger
       } as TriggerConfig<Client, M>;
 
-      const trigger = new BaseTrigger(fullConfig, this.connectionManager);
+      const trigger = new BaseTrigger(
+        this.withDefaults(fullConfig),
+        this.connectionManager
+      );
       const triggerId = this.generateTriggerId(modelOrTrigger, config);
       this.addTrigger(triggerId, trigger);
     } else {
@@ -58,22 +84,31 @@ export class TriggerRegistry<Client, TriggerMap = {}>
   }
 
   // New define method - returns Registry with updated type
-  define<ID extends string, M extends ModelName<Client>>(
+  define<
+    ID extends string,
+    M extends ModelName<Client>,
+    S extends ModelField<Client, M> = ModelField<Client, M>,
+    E extends TriggerOperation = TriggerOperation,
+    R extends TriggerForEach = 'ROW'
+  >(
     id: ID,
-    definition: TriggerDefinition<Client, M>
+    definition: TriggerDefinition<Client, M, S, E, R>
   ): Registry<
     Client,
-    TriggerMap & { [K in ID]: TriggerEvent<Client, M, TriggerOperation> }
+    TriggerMap & { [K in ID]: HandleEvent<Client, M, E, S, R> }
   > {
-    const fullConfig: TriggerConfig<Client, M> = {
+    const fullConfig: TriggerConfig<Client, M, E, S> = {
       ...definition,
       name: definition.name || `${id}_trigger`,
       functionName: definition.functionName || `${id}_func`,
       functionArgs: definition.functionArgs || [],
       forEach: definition.forEach || 'ROW'
-    } as TriggerConfig<Client, M>;
+    } as TriggerConfig<Client, M, E, S>;
 
-    const trigger = new BaseTrigger(fullConfig, this.connectionManager);
+    const trigger = new BaseTrigger(
+      this.withDefaults(fullConfig),
+      this.connectionManager
+    );
     this.addTrigger(id, trigger);
 
     // Map the ID to the model for onModel functionality
@@ -93,7 +128,7 @@ export class TriggerRegistry<Client, TriggerMap = {}>
 
   private addTrigger(
     triggerId: string,
-    trigger: TriggerHandle<Client, any>
+    trigger: TriggerHandle<Client, any, any, any, any>
   ): void {
     const model = String(trigger.config.model);
 
@@ -157,24 +192,56 @@ export class TriggerRegistry<Client, TriggerMap = {}>
   // Type-safe on method with overloads
   on<K extends keyof TriggerMap>(
     triggerId: K,
-    handler: (event: TriggerMap[K]) => void | Promise<void>
+    handler: (event: TriggerMap[K]) => void | Promise<void>,
+    options?: SubscribeOptions<TriggerMap[K]>
+  ): () => void;
+  on<K extends keyof TriggerMap, O extends EventOperation<TriggerMap[K]>>(
+    triggerId: K,
+    operation: O,
+    handler: (
+      event: Extract<TriggerMap[K], { operation: O }>
+    ) => void | Promise<void>,
+    options?: SubscribeOptions<Extract<TriggerMap[K], { operation: O }>>
   ): () => void;
   on<M extends ModelName<Client>>(
     model: M,
     handler: (
       event: TriggerEvent<Client, M, TriggerOperation>
-    ) => void | Promise<void>
+    ) => void | Promise<void>,
+    options?: SubscribeOptions<TriggerEvent<Client, M, TriggerOperation>>
   ): () => void;
   on(
     idOrModel: string,
-    handler: (event: any) => void | Promise<void>
+    operationOrHandler:
+      | TriggerOperation
+      | ((event: any) => void | Promise<void>),
+    handlerOrOptions?:
+      | ((event: any) => void | Promise<void>)
+      | SubscribeOptions,
+    operationOptions?: SubscribeOptions
   ): () => void {
+    // Either on(idOrModel, handler, options) or on(id, operation, handler, options)
+    const operation =
+      typeof operationOrHandler === 'string' ? operationOrHandler : undefined;
+    const handler = (operation ? handlerOrOptions : operationOrHandler) as (
+      event: any
+    ) => void | Promise<void>;
+    const options = (operation ? operationOptions : handlerOrOptions) as
+      | SubscribeOptions
+      | undefined;
+
     // Check if it's a trigger ID first
     const trigger = this.triggers.get(idOrModel);
 
+    if (operation && !trigger) {
+      throw new Error(`No trigger registered with id: ${idOrModel}`);
+    }
+
     if (trigger) {
       // It's a specific trigger ID
-      const unsubscribe = trigger.subscribe(handler);
+      const unsubscribe = operation
+        ? trigger.on(operation, handler, options)
+        : trigger.subscribe(handler, options);
 
       // Track handler
       if (!this.handlers.has(idOrModel)) {
@@ -192,7 +259,40 @@ export class TriggerRegistry<Client, TriggerMap = {}>
     }
 
     // Otherwise, treat it as a model name
-    return this.onModel(idOrModel as any, handler);
+    return this.onModel(idOrModel as any, handler, options);
+  }
+
+  events<K extends keyof TriggerMap>(
+    triggerId: K,
+    options?: EventStreamOptions
+  ): AsyncIterableIterator<TriggerMap[K]> {
+    if (!this.triggers.has(String(triggerId))) {
+      throw new Error(`No trigger registered with id: ${String(triggerId)}`);
+    }
+
+    return createEventIterator<TriggerMap[K]>(
+      (handler, subscribeOptions) =>
+        this.on(triggerId, handler, subscribeOptions),
+      options
+    );
+  }
+
+  stream<K extends keyof TriggerMap>(
+    triggerId: K,
+    options?: EventStreamOptions
+  ): ReadableStream<TriggerMap[K]> {
+    return toReadableStream(this.events(triggerId, options));
+  }
+
+  async replayDeadLetters(
+    triggerId: keyof TriggerMap & string
+  ): Promise<ReplayResult> {
+    const trigger = this.triggers.get(triggerId);
+    if (!trigger) {
+      throw new Error(`No trigger registered with id: ${triggerId}`);
+    }
+
+    return trigger.replayDeadLetters();
   }
 
   // Listen to all triggers for a model
@@ -200,7 +300,8 @@ export class TriggerRegistry<Client, TriggerMap = {}>
     model: M,
     handler: (
       event: TriggerEvent<Client, M, TriggerOperation>
-    ) => void | Promise<void>
+    ) => void | Promise<void>,
+    options?: SubscribeOptions<TriggerEvent<Client, M, TriggerOperation>>
   ): () => void {
     const modelStr = String(model);
 
@@ -216,7 +317,7 @@ export class TriggerRegistry<Client, TriggerMap = {}>
     for (const triggerId of triggerIds) {
       const trigger = this.triggers.get(triggerId);
       if (trigger) {
-        const unsubscribe = trigger.subscribe(handler as any);
+        const unsubscribe = trigger.subscribe(handler as any, options as any);
         unsubscribes.push(unsubscribe);
       }
     }
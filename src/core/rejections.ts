@@ -0,0 +1,136 @@
+// src/core/rejections.ts
+import { quoteLiteral } from '../utils/sql';
+
+/**
+ * Prefix of the error DETAIL a rejection carries, followed by the trigger name
+ */
+export const REJECTION_DETAIL_PREFIX = 'trigger_rejection:';
+
+/**
+ * SQLSTATE a rejection is raised with unless another is given (raise_exception)
+ */
+export const DEFAULT_REJECTION_ERRCODE = 'P0001';
+
+/**
+ * A compiled rejection: the write fails when `condition` is true
+ */
+export interface RejectionCheck {
+  condition: string;
+  message: string;
+  errcode: string;
+}
+
+/**
+ * A write rejected by a trigger, as recovered from the database error
+ */
+export interface TriggerRejection {
+  trigger: string;
+  message: string;
+  errcode: string;
+}
+
+/**
+ * Builds the PL/pgSQL that raises an error for the first check that matches.
+ * The trigger name goes in the error's DETAIL so the application can tell
+ * which trigger rejected the write.
+ */
+export function buildRejectionSQL(
+  trigger: string,
+  checks: RejectionCheck[]
+): string {
+  const detail = quoteLiteral(`${REJECTION_DETAIL_PREFIX}${trigger}`);
+
+  return checks
+    .map(({ condition, message, errcode }) => {
+      if (!/^[0-9A-Z]{5}$/.test(errcode)) {
+        throw new Error(
+          `Invalid errcode "${errcode}" for trigger "${trigger}"; expected a five-character SQLSTATE such as P0001`
+        );
+      }
+
+      // Like a WHEN clause, a NULL condition doesn't reject
+      return [
+        `  IF COALESCE(${condition}, FALSE) THEN`,
+        '    RAISE EXCEPTION USING',
+        `      MESSAGE = ${quoteLiteral(message)},`,
+        `      ERRCODE = '${errcode}',`,
+        `      DETAIL = ${detail};`,
+        '  END IF;'
+      ].join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Reads the rejection out of an error thrown by a write, whether it comes
+ * straight from postgres or wrapped by Prisma. Returns undefined for any
+ * other error.
+ */
+export function getTriggerRejection(
+  error: unknown
+): TriggerRejection | undefined {
+  if (!(error instanceof Error)) return undefined;
+
+  // postgres errors carry the fields directly, and Prisma's driver adapters
+  // keep the database error as the cause
+  const seen = new Set<unknown>();
+  for (
+    let current: unknown = error;
+    typeof current === 'object' && current !== null && !seen.has(current);
+    current = (current as { cause?: unknown }).cause
+  ) {
+    seen.add(current);
+    const fields = current as {
+      code?: unknown;
+      detail?: unknown;
+      message?: unknown;
+    };
+
+    if (
+      typeof fields.detail === 'string' &&
+      fields.detail.startsWith(REJECTION_DETAIL_PREFIX)
+    ) {
+      return {
+        trigger: fields.detail.slice(REJECTION_DETAIL_PREFIX.length),
+        message:
+          typeof fields.message === 'string' ? fields.message : error.message,
+        errcode: String(fields.code)
+      };
+    }
+  }
+
+  // The query engine only includes the database error in its message, written
+  // like PostgresError { code: "P0001", message: "...", ..., detail: Some("...") }
+  const match = error.message.match(
+    /code: "([0-9A-Z]{5})", message: "((?:[^"\\]|\\.)*)"[\s\S]*?detail: Some\("((?:[^"\\]|\\.)*)"\)/
+  );
+  const detail = match && unescape(match[3]);
+  if (!match || !detail?.startsWith(REJECTION_DETAIL_PREFIX)) return undefined;
+
+  return {
+    trigger: detail.slice(REJECTION_DETAIL_PREFIX.length),
+    message: unescape(match[2]),
+    errcode: match[1]
+  };
+}
+
+/**
+ * Checks whether an error is a write rejected by a trigger's `reject()`
+ * rule, optionally by a specific trigger, given as its name or handle
+ */
+export function isTriggerRejection(
+  error: unknown,
+  trigger?: string | { config: { name?: string } }
+): error is Error {
+  const rejection = getTriggerRejection(error);
+  if (!rejection) return false;
+  if (trigger === undefined) return true;
+
+  const name = typeof trigger === 'string' ? trigger : trigger.config.name;
+  return rejection.trigger === name;
+}
+
+// Undoes the escaping of a string in Prisma's error messages
+function unescape(text: string): string {
+  return text.replace(/\\(.)/g, '$1');
+}
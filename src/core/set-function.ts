@@ -0,0 +1,104 @@
+// src/core/set-function.ts
+import { arrayLiteral, expressionSQL, FieldRef, ValueRef } from './conditions';
+import { getColumnName, getScalarFields } from '../utils/prisma';
+import {
+  dollarQuote,
+  generatedIdent,
+  quoteIdent,
+  quoteLiteral
+} from '../utils/sql';
+
+/**
+ * A column a BEFORE trigger assigns and the SQL for its new value
+ */
+export interface Assignment {
+  column: string;
+  value: string;
+}
+
+/**
+ * Options for generating a BEFORE function that checks and sets fields on the
+ * new row
+ */
+export interface SetFunctionOptions {
+  /** Name of the PostgreSQL function to create */
+  functionName: string;
+
+  /** Columns assigned on NEW, in order */
+  assignments: Assignment[];
+
+  /** Rejection checks, from buildRejectionSQL, run before any assignment */
+  rejections?: string;
+}
+
+/**
+ * Turns `set()` values into assignments, resolving mapped column names.
+ * Plain values are rendered by the field's type, so lists become arrays and
+ * Json fields become JSONB.
+ */
+export function buildAssignments(
+  model: string,
+  values: Record<string, unknown>
+): Assignment[] {
+  const fields = getScalarFields(model);
+  const entries = Object.entries(values).filter(([, v]) => v !== undefined);
+
+  if (entries.length === 0) {
+    throw new Error('set() needs at least one field');
+  }
+
+  return entries.map(([field, value]) => {
+    const info = fields.find((f) => f.name === field);
+    if (fields.length > 0 && !info) {
+      throw new Error(`Cannot set unknown field "${field}" on ${model}`);
+    }
+
+    try {
+      return {
+        column: getColumnName(model, field),
+        value: assignedValue(value, info?.type === 'Json')
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot set "${field}" on ${model}: ${reason}`);
+    }
+  });
+}
+
+function assignedValue(value: unknown, isJson: boolean): string {
+  if (value instanceof FieldRef || value instanceof ValueRef) {
+    return value.toSQL();
+  }
+  if (value === null) return 'NULL';
+  if (isJson) return `${quoteLiteral(JSON.stringify(value))}::jsonb`;
+  if (Array.isArray(value)) return arrayLiteral(value);
+  return expressionSQL(value);
+}
+
+/**
+ * Builds the SQL for a BEFORE trigger function that rejects writes matching
+ * its checks, then assigns columns on the new row and returns it, so the row
+ * is written with the computed values.
+ */
+export function buildSetFunctionSQL(options: SetFunctionOptions): string {
+  const assignments = options.assignments
+    .map(({ column, value }) => `  NEW.${quoteIdent(column)} := ${value};`)
+    .join('\n');
+
+  const body = [
+    'BEGIN',
+    options.rejections,
+    // A DELETE can only be rejected; returning OLD lets it go ahead
+    `  IF TG_OP = 'DELETE' THEN\n    RETURN OLD;\n  END IF;`,
+    assignments,
+    '  RETURN NEW;',
+    'END;'
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return `
+CREATE OR REPLACE FUNCTION ${generatedIdent(options.functionName)}()
+RETURNS TRIGGER AS ${dollarQuote(body)} LANGUAGE plpgsql;
+`.trim();
+}
@@ -0,0 +1,32 @@
+// src/core/table-columns.ts
+import { ConnectionManager } from './connection-manager';
+import { TableColumn } from '../utils/prisma';
+import { quoteIdent } from '../utils/sql';
+
+/**
+ * Reads a table's columns from the catalog. Prisma's runtime DMMF leaves out
+ * which fields are lists or part of the primary key, so that comes from the
+ * table itself.
+ */
+export async function loadTableColumns(
+  connectionManager: ConnectionManager,
+  table: string
+): Promise<TableColumn[]> {
+  return connectionManager.transaction(async (tx) => {
+    const rows = await tx<TableColumn[]>`
+      SELECT
+        a.attname AS name,
+        t.typcategory = 'A' AS "isList",
+        COALESCE(a.attnum = ANY(i.indkey), FALSE) AS "isPrimaryKey"
+      FROM pg_attribute a
+      JOIN pg_type t ON t.oid = a.atttypid
+      LEFT JOIN pg_index i
+        ON i.indrelid = a.attrelid AND i.indisprimary
+      WHERE a.attrelid = to_regclass(${quoteIdent(table)})
+        AND a.attnum > 0
+        AND NOT a.attisdropped
+      ORDER BY a.attnum
+    `;
+    return [...rows];
+  });
+}
@@ -3,17 +3,23 @@ import { ConnectionManager } from './connection-manager';
 import { BaseTrigger } from './base-trigger';
 import { Condition, ConditionBuilder } from './conditions';
 import {
-  buildWhereCondition,
-  ConditionEvaluator
+  ConditionBindings,
+  ConditionEvaluator,
+  FunctionCondition
 } from '../utils/condition-parser';
 import {
+  ConstraintOptions,
   ModelName,
   ModelField,
   TriggerTiming,
   TriggerOperation,
   TriggerForEach,
   TriggerConfig,
-  TriggerHandle
+  TriggerFunction,
+  TriggerHandle,
+  RejectOptions,
+  SetValues,
+  WhenConditionBuilder
 } from '../types';
 
 // State types
@@ -26,19 +32,55 @@ export type WithNameState<M> = {
   readonly _brand: 'withName';
   readonly _model: M;
 };
-export type WithTimingState<M> = {
+export type WithTimingState<M, T extends TriggerTiming = TriggerTiming> = {
   readonly _brand: 'withTiming';
   readonly _model: M;
+  readonly _timing: T;
 };
-export type WithEventsState<M> = {
+export type WithEventsState<
+  M,
+  S = never,
+  E extends TriggerOperation = TriggerOperation,
+  T extends TriggerTiming = TriggerTiming,
+  R extends TriggerForEach = 'ROW'
+> = {
   readonly _brand: 'withEvents';
   readonly _model: M;
+  readonly _select: S;
+  readonly _events: E;
+  readonly _timing: T;
+  readonly _forEach: R;
 };
-export type CompleteState<M> = {
+export type WithChecksState<
+  M,
+  S = never,
+  E extends TriggerOperation = TriggerOperation
+> = {
+  readonly _brand: 'withChecks';
+  readonly _model: M;
+  readonly _select: S;
+  readonly _events: E;
+};
+export type CompleteState<
+  M,
+  S = never,
+  E extends TriggerOperation = TriggerOperation,
+  R extends TriggerForEach = 'ROW'
+> = {
   readonly _brand: 'complete';
   readonly _model: M;
+  readonly _select: S;
+  readonly _events: E;
+  readonly _forEach: R;
 };
 
+// Fields sent in payloads - every field unless `select()` narrowed them
+type BuilderSelection<Client, M extends ModelName<Client>, S> = [S] extends [
+  never
+]
+  ? ModelField<Client, M>
+  : Extract<S, ModelField<Client, M>>;
+
 // State tracking for builder pattern
 interface BuilderState<Client, M extends ModelName<Client> = any> {
   model?: M;
@@ -47,10 +89,17 @@ interface BuilderState<Client, M extends ModelName<Client> = any> {
   events?: TriggerOperation[];
   forEach?: TriggerForEach;
   watchColumns?: Array<ModelField<Client, M>>;
-  when?: string | ((c: ConditionBuilder<Client, M>) => Condition);
+  when?: string | Condition | ((c: ConditionBuilder<Client, M>) => Condition);
   functionName?: string;
   functionArgs?: string[];
+  function?: TriggerFunction;
   notify?: string;
+  select?: Array<ModelField<Client, M>>;
+  set?: SetValues<Client, M> | ((c: any) => SetValues<Client, M>);
+  reject?: Array<
+    RejectOptions & { when: string | Condition | ((c: any) => Condition) }
+  >;
+  constraint?: ConstraintOptions;
 }
 
 // Base builder without any methods
@@ -85,36 +134,129 @@ interface WithModelBuilder<Client, M> {
 }
 
 interface WithNameBuilder<Client, M> {
-  before(): TriggerBuilder<Client, WithTimingState<M>>;
-  after(): TriggerBuilder<Client, WithTimingState<M>>;
-  insteadOf(): TriggerBuilder<Client, WithTimingState<M>>;
+  before(): TriggerBuilder<Client, WithTimingState<M, 'BEFORE'>>;
+  after(): TriggerBuilder<Client, WithTimingState<M, 'AFTER'>>;
+  insteadOf(): TriggerBuilder<Client, WithTimingState<M, 'INSTEAD OF'>>;
 }
 
-interface WithTimingBuilder<Client, M> {
-  on(...events: TriggerOperation[]): TriggerBuilder<Client, WithEventsState<M>>;
+interface WithTimingBuilder<Client, M, T extends TriggerTiming> {
+  on<E extends TriggerOperation>(
+    ...events: E[]
+  ): TriggerBuilder<Client, WithEventsState<M, never, E, T>>;
 }
 
-interface WithEventsBuilder<Client, M extends ModelName<Client>> {
+// What a `when` callback receives. It's typed as both the condition builder
+// and the rows so that either form checks: `c => c.NEW('status').eq('DONE')`
+// or `({ NEW }) => NEW.status === 'DONE'`, which is compiled to SQL.
+type WhenArgument<
+  Client,
+  M extends ModelName<Client>,
+  E extends TriggerOperation
+> = WhenConditionBuilder<Client, M, E> &
+  Parameters<ConditionEvaluator<Client, M, E>>[0];
+
+interface WithEventsBuilder<
+  Client,
+  M extends ModelName<Client>,
+  S,
+  E extends TriggerOperation,
+  T extends TriggerTiming,
+  R extends TriggerForEach
+> {
   watchColumns(
     ...columns: Array<ModelField<Client, M>>
-  ): TriggerBuilder<Client, WithEventsState<M>>;
+  ): TriggerBuilder<Client, WithEventsState<M, S, E, T, R>>;
   when(
     condition:
       | string
-      | ConditionEvaluator<Client, M>
-      | ((c: ConditionBuilder<Client, M>) => Condition)
-  ): TriggerBuilder<Client, WithEventsState<M>>;
-  forEach(value: TriggerForEach): TriggerBuilder<Client, WithEventsState<M>>;
+      | Condition
+      | ((c: WhenArgument<Client, M, E>) => Condition | boolean)
+  ): TriggerBuilder<Client, WithEventsState<M, S, E, T, R>>;
+  when(
+    condition: ConditionEvaluator<Client, M, E>,
+    bindings: ConditionBindings
+  ): TriggerBuilder<Client, WithEventsState<M, S, E, T, R>>;
+  forEach<V extends TriggerForEach>(
+    value: V
+  ): TriggerBuilder<Client, WithEventsState<M, S, E, T, V>>;
+  select<F extends ModelField<Client, M>>(
+    ...fields: F[]
+  ): TriggerBuilder<Client, WithEventsState<M, F, E, T, R>>;
   executeFunction(
     functionName: string,
     ...args: string[]
-  ): TriggerBuilder<Client, CompleteState<M>>;
-  notify(channel?: string): TriggerBuilder<Client, CompleteState<M>>;
-  build(): TriggerHandle<Client, M>;
+  ): TriggerBuilder<Client, CompleteState<M, S, E, R>>;
+  // A function from `functions.define`, given its arguments by name
+  executeFunction<A extends string>(
+    fn: TriggerFunction<A>,
+    ...args: [A] extends [never] ? [] : [values: Record<A, string>]
+  ): TriggerBuilder<Client, CompleteState<M, S, E, R>>;
+  notify(channel?: string): TriggerBuilder<Client, CompleteState<M, S, E, R>>;
+  build(): TriggerHandle<Client, M, BuilderSelection<Client, M, S>, E, R>;
+}
+
+// Only BEFORE triggers can change the row, and a DELETE has no new row
+interface SetBuilder<
+  Client,
+  M extends ModelName<Client>,
+  S,
+  E extends TriggerOperation
+> {
+  set(
+    values:
+      | SetValues<Client, M>
+      | ((c: WhenConditionBuilder<Client, M, E>) => SetValues<Client, M>)
+  ): TriggerBuilder<Client, CompleteState<M, S, E>>;
+}
+
+interface RejectBuilder<
+  Client,
+  M extends ModelName<Client>,
+  S,
+  E extends TriggerOperation
+> {
+  reject(
+    condition:
+      | string
+      | Condition
+      | ((c: WhenArgument<Client, M, E>) => Condition | boolean),
+    options: RejectOptions
+  ): TriggerBuilder<Client, WithChecksState<M, S, E>>;
+}
+
+// Postgres only has AFTER constraint triggers
+interface ConstraintBuilder<
+  Client,
+  M,
+  S,
+  E extends TriggerOperation,
+  T extends TriggerTiming,
+  R extends TriggerForEach
+> {
+  constraint(
+    options?: ConstraintOptions
+  ): TriggerBuilder<Client, WithEventsState<M, S, E, T, R>>;
 }
 
-interface CompleteBuilder<Client, M extends ModelName<Client>> {
-  build(): TriggerHandle<Client, M>;
+// Steps only a BEFORE trigger has
+type BeforeBuilder<
+  Client,
+  M extends ModelName<Client>,
+  S,
+  E extends TriggerOperation
+> = RejectBuilder<Client, M, S, E> &
+  ([Extract<E, 'DELETE' | 'TRUNCATE'>] extends [never]
+    ? SetBuilder<Client, M, S, E>
+    : {});
+
+interface CompleteBuilder<
+  Client,
+  M extends ModelName<Client>,
+  S,
+  E extends TriggerOperation,
+  R extends TriggerForEach = 'ROW'
+> {
+  build(): TriggerHandle<Client, M, BuilderSelection<Client, M, S>, E, R>;
 }
 
 // Type that combines base with appropriate interface based on state
@@ -124,15 +266,32 @@ export type TriggerBuilder<Client, State> = State extends EmptyState
   ? TriggerBuilderBase<Client, State> & WithModelBuilder<Client, M>
   : State extends WithNameState<infer M>
   ? TriggerBuilderBase<Client, State> & WithNameBuilder<Client, M>
-  : State extends WithTimingState<infer M>
-  ? TriggerBuilderBase<Client, State> & WithTimingBuilder<Client, M>
-  : State extends WithEventsState<infer M>
+  : State extends WithTimingState<infer M, infer T>
+  ? TriggerBuilderBase<Client, State> & WithTimingBuilder<Client, M, T>
+  : State extends WithEventsState<
+      infer M,
+      infer S,
+      infer E,
+      infer T,
+      infer R
+    >
+  ? M extends ModelName<Client>
+    ? TriggerBuilderBase<Client, State> &
+        WithEventsBuilder<Client, M, S, E, T, R> &
+        ([T] extends ['BEFORE'] ? BeforeBuilder<Client, M, S, E> : {}) &
+        ([T] extends ['AFTER']
+          ? ConstraintBuilder<Client, M, S, E, T, R>
+          : {})
+    : never
+  : State extends WithChecksState<infer M, infer S, infer E>
   ? M extends ModelName<Client>
-    ? TriggerBuilderBase<Client, State> & WithEventsBuilder<Client, M>
+    ? TriggerBuilderBase<Client, State> &
+        BeforeBuilder<Client, M, S, E> &
+        CompleteBuilder<Client, M, S, E>
     : never
-  : State extends CompleteState<infer M>
+  : State extends CompleteState<infer M, infer S, infer E, infer R>
   ? M extends ModelName<Client>
-    ? TriggerBuilderBase<Client, State> & CompleteBuilder<Client, M>
+    ? TriggerBuilderBase<Client, State> & CompleteBuilder<Client, M, S, E, R>
     : never
   : never;
 
@@ -192,62 +351,120 @@ class TriggerBuilderImpl<Client, State> extends TriggerBuilderBase<
     }) as any;
   }
 
-  when(condition: any): TriggerBuilder<Client, any> {
-    let whenCondition: string | ((c: ConditionBuilder<any, any>) => Condition);
+  constraint(options: ConstraintOptions = {}): TriggerBuilder<Client, any> {
+    return new TriggerBuilderImpl(this.connectionManager, {
+      ...this.state,
+      constraint: options
+    }) as any;
+  }
 
-    if (typeof condition === 'string') {
-      whenCondition = condition;
-    } else {
-      const funcStr = condition.toString();
-      const isConditionBuilder = funcStr.match(
-        /^\s*\(\s*[a-zA-Z_$][a-zA-Z0-9_$]*\s*\)\s*=>/
-      );
+  when(
+    condition: any,
+    bindings?: ConditionBindings
+  ): TriggerBuilder<Client, any> {
+    return new TriggerBuilderImpl(this.connectionManager, {
+      ...this.state,
+      when: this.resolveCondition(condition, bindings)
+    }) as any;
+  }
+
+  reject(condition: any, options: RejectOptions): TriggerBuilder<Client, any> {
+    return new TriggerBuilderImpl(this.connectionManager, {
+      ...this.state,
+      reject: [
+        ...(this.state.reject ?? []),
+        { ...options, when: this.resolveCondition(condition) }
+      ],
+      functionName: `${this.state.name}_before_func`
+    }) as any;
+  }
 
-      if (isConditionBuilder) {
-        whenCondition = condition as (
-          c: ConditionBuilder<any, any>
-        ) => Condition;
-      } else {
-        whenCondition = buildWhereCondition(
-          condition as ConditionEvaluator<any, any>
-        );
+  // Strings and conditions are used as they are. A function is either a
+  // condition builder callback or a condition compiled from its source.
+  private resolveCondition(
+    condition: any,
+    bindings?: ConditionBindings
+  ): string | Condition | ((c: ConditionBuilder<any, any>) => Condition) {
+    if (typeof condition === 'string' || typeof condition === 'object') {
+      if (bindings) {
+        throw new Error('Bindings are only supported for function conditions');
       }
+      return condition;
     }
 
+    const funcStr = condition.toString();
+    // A single plain parameter, `c =>` or `(c) =>`, is the condition
+    // builder. Bindings only make sense for conditions compiled from source.
+    const isConditionBuilder =
+      !bindings &&
+      funcStr.match(
+        /^\s*(\(\s*[a-zA-Z_$][a-zA-Z0-9_$]*\s*\)|[a-zA-Z_$][a-zA-Z0-9_$]*)\s*=>/
+      );
+
+    if (isConditionBuilder) {
+      return condition as (c: ConditionBuilder<any, any>) => Condition;
+    }
+    return new FunctionCondition(
+      condition,
+      String(this.state.model),
+      bindings
+    );
+  }
+
+  forEach(value: TriggerForEach): TriggerBuilder<Client, any> {
     return new TriggerBuilderImpl(this.connectionManager, {
       ...this.state,
-      when: whenCondition
+      forEach: value
     }) as any;
   }
 
-  forEach(value: TriggerForEach): TriggerBuilder<Client, any> {
+  select(...fields: any[]): TriggerBuilder<Client, any> {
     return new TriggerBuilderImpl(this.connectionManager, {
       ...this.state,
-      forEach: value
+      select: fields
     }) as any;
   }
 
   executeFunction(
-    functionName: string,
-    ...args: string[]
+    fn: string | TriggerFunction,
+    ...args: any[]
   ): TriggerBuilder<Client, any> {
+    if (typeof fn !== 'string') {
+      return new TriggerBuilderImpl(this.connectionManager, {
+        ...this.state,
+        function: fn,
+        functionName: fn.name,
+        functionArgs: fn.toArgs(args[0] ?? {})
+      }) as any;
+    }
+
     return new TriggerBuilderImpl(this.connectionManager, {
       ...this.state,
-      functionName,
+      functionName: fn,
       functionArgs: args
     }) as any;
   }
 
+  set(values: any): TriggerBuilder<Client, any> {
+    return new TriggerBuilderImpl(this.connectionManager, {
+      ...this.state,
+      set: values,
+      functionName: `${this.state.name}_before_func`
+    }) as any;
+  }
+
   notify(channel?: string): TriggerBuilder<Client, any> {
     const channelName = channel || `${String(this.state.model)}_events`;
     return new TriggerBuilderImpl(this.connectionManager, {
       ...this.state,
       notify: channelName,
-      functionName: `${channelName.replace(/[^a-z0-9_]/gi, '_')}_notify_func`
+      // The function carries this trigger's projection, condition and
+      // delivery, so triggers sharing a channel each need their own
+      functionName: `${this.state.name}_notify_func`
     }) as any;
   }
 
-  build(): TriggerHandle<Client, any> {
+  build(): TriggerHandle<Client, any, any, any, any> {
     const config: TriggerConfig<Client, any> = {
       model: this.state.model!,
       name: this.state.name,
@@ -256,9 +473,14 @@ class TriggerBuilderImpl<Client, State> extends TriggerBuilderBase<
       forEach: this.state.forEach || 'ROW',
       functionName: this.state.functionName || this.getDefaultFunctionName(),
       functionArgs: this.state.functionArgs,
+      function: this.state.function,
       watchColumns: this.state.watchColumns,
       when: this.state.when,
-      notify: this.state.notify
+      notify: this.state.notify,
+      select: this.state.select,
+      set: this.state.set,
+      reject: this.state.reject,
+      constraint: this.state.constraint
     };
 
     return new BaseTrigger(config, this.connectionManager);
@@ -273,9 +495,15 @@ export function createTriggerBuilder<Client>(
 }
 
 // Factory function for config-based creation
-export function createTriggerFromConfig<Client, M extends ModelName<Client>>(
-  config: TriggerConfig<Client, M>,
+export function createTriggerFromConfig<
+  Client,
+  M extends ModelName<Client>,
+  S extends ModelField<Client, M> = ModelField<Client, M>,
+  E extends TriggerOperation = TriggerOperation,
+  R extends TriggerForEach = TriggerForEach
+>(
+  config: TriggerConfig<Client, M, E, S, R>,
   connectionManager: ConnectionManager
-): TriggerHandle<Client, M> {
+): TriggerHandle<Client, M, S, E, R> {
   return new BaseTrigger(config, connectionManager);
 }
@@ -0,0 +1,220 @@
+// src/core/trigger-functions.ts
+import { createHash } from 'crypto';
+import { ConnectionManager } from './connection-manager';
+import {
+  dollarQuote,
+  generatedIdent,
+  quoteIdent,
+  quoteLiteral
+} from '../utils/sql';
+import { FunctionDefinition, TriggerFunction } from '../types';
+
+/**
+ * Prefix of the comment that records which version of a definition a
+ * function was created from
+ */
+export const FUNCTION_VERSION_PREFIX = 'pg_typesafe_triggers:';
+
+/**
+ * Builds the SQL that creates a trigger function. PL/pgSQL functions declare
+ * their named arguments as variables read from TG_ARGV.
+ */
+export function buildTriggerFunctionSQL(
+  name: string,
+  definition: FunctionDefinition<string>
+): string {
+  const language = definition.language ?? 'plpgsql';
+  if (!/^[a-z_][a-z0-9_]*$/i.test(language)) {
+    throw new Error(`Invalid language "${language}" for function "${name}"`);
+  }
+
+  const args = definition.args ?? [];
+  let body = definition.body.trim();
+  if (language.toLowerCase() === 'plpgsql' && args.length > 0) {
+    // PL/pgSQL allows a second DECLARE, so bodies can still declare their own
+    const declarations = args
+      .map((arg, i) => `  ${quoteIdent(arg)} TEXT := TG_ARGV[${i}];`)
+      .join('\n');
+    body = `DECLARE\n${declarations}\n${body}`;
+  }
+
+  const security =
+    definition.security === 'definer' ? 'SECURITY DEFINER' : 'SECURITY INVOKER';
+
+  return `
+CREATE OR REPLACE FUNCTION ${generatedIdent(name)}()
+RETURNS TRIGGER
+LANGUAGE ${language.toLowerCase()}
+${security}
+AS ${dollarQuote(body)};
+`.trim();
+}
+
+/**
+ * A trigger function shared by the triggers that execute it. Triggers
+ * acquire it when they're set up and release it when they're dropped, and
+ * the function is dropped with the last of them.
+ */
+export class ManagedTriggerFunction<A extends string = string>
+  implements TriggerFunction<A>
+{
+  readonly name: string;
+  readonly args: readonly A[];
+  readonly version: string;
+  private sql: string;
+  private users = new Set<string>();
+  private created = false;
+  // Acquires and releases run one at a time, so a drop can't land after a
+  // create it raced with
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    name: string,
+    definition: FunctionDefinition<A>,
+    private connectionManager: ConnectionManager
+  ) {
+    const args = definition.args ?? [];
+    const duplicate = args.find((arg, i) => args.indexOf(arg) !== i);
+    if (duplicate) {
+      throw new Error(
+        `Function "${name}" declares the argument "${duplicate}" twice`
+      );
+    }
+
+    this.name = name;
+    this.args = args;
+    this.sql = buildTriggerFunctionSQL(name, definition);
+    this.version = createHash('sha256')
+      .update(this.sql)
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  toArgs(values: Record<A, string>): string[] {
+    return this.args.map((arg) => {
+      const value = values[arg];
+      if (typeof value !== 'string') {
+        throw new Error(
+          `Function "${this.name}" needs a string for its argument "${arg}"`
+        );
+      }
+      return value;
+    });
+  }
+
+  acquire(trigger: string): Promise<void> {
+    return this.serialize(async () => {
+      this.users.add(trigger);
+      if (this.created) return;
+
+      try {
+        await this.create();
+        this.created = true;
+      } catch (error) {
+        this.users.delete(trigger);
+        throw error;
+      }
+    });
+  }
+
+  release(trigger: string): Promise<void> {
+    return this.serialize(async () => {
+      if (!this.users.delete(trigger) || this.users.size > 0) return;
+      this.created = false;
+      await this.drop();
+    });
+  }
+
+  private serialize(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Drops the function unless triggers set up by other processes still
+  // need it
+  private async drop(): Promise<void> {
+    await this.connectionManager.transaction(async (tx) => {
+      const [{ used }] = await tx`
+        SELECT EXISTS (
+          SELECT 1 FROM pg_trigger
+          WHERE tgfoid = to_regprocedure(${this.signature()})
+        ) AS used
+      `;
+      if (!used) {
+        await tx.unsafe(`DROP FUNCTION IF EXISTS ${this.signature()};`);
+      }
+    });
+  }
+
+  // Creates the function, or replaces it if it was created from another
+  // version of the definition
+  private async create(): Promise<void> {
+    const comment = `${FUNCTION_VERSION_PREFIX}${this.version}`;
+
+    await this.connectionManager.transaction(async (tx) => {
+      const [{ current }] = await tx`
+        SELECT obj_description(
+          to_regprocedure(${this.signature()}),
+          'pg_proc'
+        ) AS current
+      `;
+      if (current === comment) return;
+
+      await tx.unsafe(this.sql);
+      await tx.unsafe(
+        `COMMENT ON FUNCTION ${this.signature()} IS ${quoteLiteral(comment)};`
+      );
+    });
+  }
+
+  private signature(): string {
+    return `${generatedIdent(this.name)}()`;
+  }
+}
+
+// Only a function built from the same SQL and arguments can be shared
+function isSameDefinition<A extends string>(
+  existing: ManagedTriggerFunction<string>,
+  fn: ManagedTriggerFunction<A>
+): existing is ManagedTriggerFunction<A> {
+  return (
+    existing.version === fn.version &&
+    existing.args.length === fn.args.length &&
+    existing.args.every((arg, i) => arg === fn.args[i])
+  );
+}
+
+/**
+ * Defines the trigger functions triggers can execute. Defining the same name
+ * again returns the existing function, so triggers share it.
+ */
+export class TriggerFunctions {
+  private functions = new Map<string, ManagedTriggerFunction<string>>();
+
+  constructor(private connectionManager: ConnectionManager) {}
+
+  define<const A extends string = never>(
+    name: string,
+    definition: FunctionDefinition<A>
+  ): TriggerFunction<A> {
+    const fn = new ManagedTriggerFunction(
+      name,
+      definition,
+      this.connectionManager
+    );
+
+    const existing = this.functions.get(name);
+    if (existing) {
+      if (!isSameDefinition(existing, fn)) {
+        throw new Error(
+          `Function "${name}" is already defined with a different definition`
+        );
+      }
+      return existing;
+    }
+
+    this.functions.set(name, fn);
+    return fn;
+  }
+}
@@ -1,6 +1,7 @@
 // src/index.ts
 import { ConnectionManager } from './core/connection-manager';
 import { TriggerRegistry } from './core/registry';
+import { TriggerFunctions } from './core/trigger-functions';
 import {
   createTriggerBuilder,
   createTriggerFromConfig,
@@ -9,9 +10,14 @@ import {
 } from './core/trigger-builder';
 import {
   ModelName,
+  ModelField,
   Registry,
+  RegistryOptions,
   TriggerConfig,
+  TriggerForEach,
+  TriggerOperation,
   TriggerHandle,
+  TriggerManagerEvents,
   TriggerManagerOptions
 } from './types';
 
@@ -19,13 +25,26 @@ import {
 export * from './types';
 
 // Export condition builders
-export { sql, type Condition } from './core/conditions';
+export {
+  sql,
+  SqlFragment,
+  type Condition,
+  type SqlValue
+} from './core/conditions';
+
+// Recognize writes rejected by a trigger's reject() rules
+export {
+  getTriggerRejection,
+  isTriggerRejection,
+  type TriggerRejection
+} from './core/rejections';
 
 // Export the builder types
 export type {
   CompleteState,
   EmptyState,
   TriggerBuilder,
+  WithChecksState,
   WithEventsState,
   WithModelState,
   WithNameState,
@@ -34,26 +53,54 @@ export type {
 
 // Export registry type for external usage
 export { TriggerRegistry } from './core/registry';
+export { TriggerFunctions } from './core/trigger-functions';
 
 // Main class that provides both APIs
 export class TriggerManager<Client> {
   private connectionManager: ConnectionManager;
 
+  /**
+   * Trigger functions whose lifecycle follows the triggers executing them
+   */
+  readonly functions: TriggerFunctions;
+
   constructor(databaseUrl: string, options: TriggerManagerOptions = {}) {
     this.connectionManager = new ConnectionManager({
       url: databaseUrl,
       plugins: options.plugins,
       lazy: options.lazy,
-      connectionPool: options.connectionPool
+      connectionPool: options.connectionPool,
+      reconnect: options.reconnect
     });
+    this.functions = new TriggerFunctions(this.connectionManager);
+  }
+
+  /**
+   * Listen to manager events such as listener reconnects
+   */
+  on<K extends keyof TriggerManagerEvents>(
+    event: K,
+    listener: (payload: TriggerManagerEvents[K]) => void
+  ): () => void {
+    this.connectionManager.on(event, listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.connectionManager.off(event, listener);
+    };
   }
 
   /**
    * Create a trigger using object configuration
    */
-  create<M extends ModelName<Client>>(
-    config: TriggerConfig<Client, M>
-  ): TriggerHandle<Client, M> {
+  create<
+    M extends ModelName<Client>,
+    S extends ModelField<Client, M> = ModelField<Client, M>,
+    E extends TriggerOperation = TriggerOperation,
+    R extends TriggerForEach = TriggerForEach
+  >(
+    config: TriggerConfig<Client, M, E, S, R>
+  ): TriggerHandle<Client, M, S, E, R> {
     return createTriggerFromConfig(config, this.connectionManager);
   }
 
@@ -70,15 +117,15 @@ export class TriggerManager<Client> {
   /**
    * Create a registry for managing multiple triggers
    */
-  registry(): Registry<Client, {}> {
-    return new TriggerRegistry<Client, {}>(this.connectionManager);
+  registry(options?: RegistryOptions): Registry<Client, {}> {
+    return new TriggerRegistry<Client, {}>(this.connectionManager, options);
   }
 
   /**
    * Create a registry with initial definitions
    */
-  createRegistry(): Registry<Client, {}> {
-    return new TriggerRegistry<Client, {}>(this.connectionManager);
+  createRegistry(options?: RegistryOptions): Registry<Client, {}> {
+    return new TriggerRegistry<Client, {}>(this.connectionManager, options);
   }
 
   /**
@@ -126,6 +173,14 @@ export { ConnectionManager } from './core/connection-manager';
 export { MigrationHelper } from './core/migration-helpers';
 export {
   buildWhereCondition,
+  ConditionCompileError,
+  type BindingValue,
+  type ConditionBindings,
   type ConditionEvaluator
 } from './utils/condition-parser';
-export { getColumnName, getModelFields, getTableName } from './utils/prisma';
+export {
+  getColumnName,
+  getModelFields,
+  getTableName,
+  type TableColumn
+} from './utils/prisma';
@@ -5,6 +5,7 @@ import {
   TriggerTiming,
   TriggerOperation,
   TriggerForEach,
+  ConstraintOptions,
   NotificationPayload
 } from './core';
 
@@ -44,6 +45,9 @@ export interface TriggerConfiguration {
 
   /** Optional notification channel name */
   channelName?: string;
+
+  /** Create a constraint trigger, which can be deferred until commit */
+  constraint?: ConstraintOptions;
 }
 
 /**
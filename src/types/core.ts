@@ -160,6 +160,20 @@ export const TriggerForEach = {
 export type TriggerForEach =
   (typeof TriggerForEach)[keyof typeof TriggerForEach];
 
+/**
+ * Options for a constraint trigger, which can wait until the transaction
+ * commits to fire
+ *
+ * @see {@link https://www.postgresql.org/docs/current/sql-createtrigger.html PostgreSQL CREATE CONSTRAINT TRIGGER}
+ */
+export interface ConstraintOptions {
+  /** Whether SET CONSTRAINTS can defer the trigger to the end of the transaction */
+  deferrable?: boolean;
+
+  /** Defer the trigger unless SET CONSTRAINTS says otherwise; implies deferrable */
+  initiallyDeferred?: boolean;
+}
+
 /**
  * Comparison operators for conditions in PostgreSQL
  *
@@ -264,6 +278,56 @@ export const ComparisonOperator = {
    */
   NOT_LIKE: 'NOT LIKE',
 
+  /**
+   * 🔡 ILIKE
+   *
+   * Case-insensitive pattern matching with wildcards.
+   *
+   * Example: Match emails regardless of case
+   * ```
+   * condition.where('email', ComparisonOperator.ILIKE, '%@example.com')
+   * ```
+   */
+  ILIKE: 'ILIKE',
+
+  /**
+   * 🧩 MATCHES
+   *
+   * POSIX regular expression match.
+   *
+   * Example: Match SKUs with a fixed format
+   * ```
+   * condition.where('sku', ComparisonOperator.MATCHES, '^[A-Z]{3}-\\d+$')
+   * ```
+   *
+   * @see {@link https://www.postgresql.org/docs/current/functions-matching.html#FUNCTIONS-POSIX-REGEXP PostgreSQL POSIX Regular Expressions}
+   */
+  MATCHES: '~',
+
+  /**
+   * 🧩 MATCHES_INSENSITIVE
+   *
+   * Case-insensitive POSIX regular expression match.
+   *
+   * Example: Match names containing a word in any case
+   * ```
+   * condition.where('name', ComparisonOperator.MATCHES_INSENSITIVE, 'urgent')
+   * ```
+   */
+  MATCHES_INSENSITIVE: '~*',
+
+  /**
+   * ↔️ BETWEEN
+   *
+   * Checks if value lies within an inclusive range.
+   *
+   * Example: Find orders in a price band
+   * ```
+   * condition.where('amount', ComparisonOperator.BETWEEN, [100, 500])
+   * ```
+   */
+  BETWEEN: 'BETWEEN',
+
   /**
    * 📋 IN
    *
@@ -407,6 +471,9 @@ export interface NotificationPayload<T> {
 
   /** The data associated with the notification (typically the NEW or OLD record) */
   data: T;
+
+  /** The previous record, present for UPDATE and DELETE notifications */
+  old?: T;
 }
 
 /**
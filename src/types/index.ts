@@ -1,6 +1,16 @@
 // src/types/index.ts
 import { EventEmitter } from 'events';
-import { Condition, ConditionBuilder } from '../core/conditions';
+import {
+  Condition,
+  ConditionBuilder,
+  FieldRefOf,
+  ValueRef
+} from '../core/conditions';
+import type { DeliveryMode } from '../core/outbox';
+import type { ConstraintOptions } from './core';
+
+export type { DeliveryMode } from '../core/outbox';
+export type { ConstraintOptions } from './core';
 
 // Core trigger types
 export const TriggerTiming = {
@@ -50,26 +60,125 @@ export type ModelField<
     : string
   : string;
 
-// Extract the record type from a model
-export type ModelRecord<Client, M extends string> = M extends keyof Client
+// True only for `any`, which spreads over both branches of `T extends never`
+type IsAny<T> = boolean extends (T extends never ? true : false) ? true : false;
+
+// `any` when M is `any`, T otherwise
+type AnyIfAny<M, T> = IsAny<M> extends true ? any : T;
+
+// Extract the record type from a model. An `any` model stands for every
+// model, so its records are `any` too.
+export type ModelRecord<Client, M extends string> = IsAny<M> extends true
+  ? any
+  : M extends keyof Client
   ? Client[M] extends { findFirst: (...args: any[]) => Promise<infer Result> }
     ? NonNullable<Result> // This is correct - Result is the inferred type
     : never
   : never;
 
-// Trigger event payload
-export interface TriggerEvent<
+// The record shape sent for a trigger, narrowed to the selected fields
+export type SelectedRecord<
   Client,
   M extends string,
-  E extends TriggerOperation
+  S extends PropertyKey = keyof ModelRecord<Client, M>
+> = IsAny<M> extends true
+  ? any
+  : keyof ModelRecord<Client, M> extends S
+  ? ModelRecord<Client, M>
+  : Pick<ModelRecord<Client, M>, Extract<S, keyof ModelRecord<Client, M>>>;
+
+// Fields shared by every trigger event payload
+interface BaseTriggerEvent<
+  Client,
+  M extends string,
+  E extends TriggerOperation,
+  S extends PropertyKey
 > {
   operation: E;
   timestamp: Date;
-  data: ModelRecord<Client, M>;
+  data: SelectedRecord<Client, M, S>;
   table: string;
   schema: string;
 }
 
+// A single field's value before and after an UPDATE
+export interface FieldChange<T> {
+  from: T;
+  to: T;
+}
+
+// Fields that changed in an UPDATE, keyed by field name
+export type FieldChanges<
+  Client,
+  M extends string,
+  S extends PropertyKey = keyof ModelRecord<Client, M>
+> = M extends ModelName<Client>
+  ? {
+      [F in ModelField<Client, M> & S]?: FieldChange<FieldType<Client, M, F>>;
+    }
+  : never;
+
+// Trigger event payload, discriminated on `operation` so that `old` is only
+// available for operations that have a previous row (UPDATE and DELETE).
+// `S` narrows the records to the fields listed in the trigger's `select`.
+export type TriggerEvent<
+  Client,
+  M extends string,
+  E extends TriggerOperation = TriggerOperation,
+  S extends PropertyKey = keyof ModelRecord<Client, M>
+> = E extends 'UPDATE'
+  ? BaseTriggerEvent<Client, M, E, S> & {
+      old: SelectedRecord<Client, M, S>;
+      changes: FieldChanges<Client, M, S>;
+    }
+  : E extends 'DELETE'
+  ? BaseTriggerEvent<Client, M, E, S> & {
+      old: SelectedRecord<Client, M, S>;
+      changes?: never;
+    }
+  : BaseTriggerEvent<Client, M, E, S> & { old?: never; changes?: never };
+
+// A row an UPDATE statement changed, before and after
+export interface UpdatedRow<T> {
+  old: T;
+  new: T;
+}
+
+// Event of a statement-level trigger, carrying every row the statement
+// changed in one batch. UPDATE rows are paired up by the model's id.
+export type StatementTriggerEvent<
+  Client,
+  M extends string,
+  E extends TriggerOperation = TriggerOperation,
+  S extends PropertyKey = keyof ModelRecord<Client, M>
+> = E extends TriggerOperation
+  ? {
+      operation: E;
+      timestamp: Date;
+      table: string;
+      schema: string;
+      rows: E extends 'UPDATE'
+        ? Array<UpdatedRow<SelectedRecord<Client, M, S>>>
+        : Array<SelectedRecord<Client, M, S>>;
+    }
+  : never;
+
+// The events a trigger delivers: one per row, or one batch per statement
+export type HandleEvent<
+  Client,
+  M extends string,
+  E extends TriggerOperation = TriggerOperation,
+  S extends PropertyKey = keyof ModelRecord<Client, M>,
+  R extends TriggerForEach = 'ROW'
+> = R extends 'STATEMENT'
+  ? StatementTriggerEvent<Client, M, E, S>
+  : TriggerEvent<Client, M, E, S>;
+
+// Operations an event type can carry
+export type EventOperation<Event> = Event extends { operation: infer O }
+  ? O & TriggerOperation
+  : never;
+
 // Records available in WHEN conditions based on operation
 export type WhenRecords<
   Client,
@@ -85,6 +194,64 @@ export type WhenRecords<
   ? {}
   : never;
 
+// How a handler processes events relative to each other
+// - 'parallel': events are handled as soon as they arrive
+// - 'serial': one event at a time, in commit order
+// - partitionBy: serial per key, parallel across keys
+export type Concurrency<Event = any> =
+  | 'parallel'
+  | 'serial'
+  | { partitionBy: (event: Event) => unknown };
+
+export interface SubscribeOptions<Event = any> {
+  concurrency?: Concurrency<Event>;
+  // Names the handler in dead letters, so a replay only runs it again if it
+  // was one of the handlers that failed
+  id?: string;
+}
+
+export interface EventStreamOptions {
+  // Events held for a slow consumer before delivery waits (default 100)
+  bufferSize?: number;
+}
+
+// How often a failing handler is retried before its event is dead-lettered
+export interface RetryPolicy {
+  // Total attempts per handler, including the first (default 1)
+  attempts: number;
+  // Delay before each retry in ms; a number doubles on every retry
+  backoff?: number | ((attempt: number) => number);
+}
+
+// An event whose handlers kept failing after every retry
+export interface DeadLetter<Event = TriggerEvent<any, any, any>> {
+  trigger: string;
+  channel: string;
+  event: Event;
+  errors: unknown[];
+  attempts: number;
+  // Ids of the failed handlers, or null when one of them has no id
+  handlers: string[] | null;
+}
+
+// Where dead letters go - a callback, or the library's dead-letter table
+// (required for `replayDeadLetters`)
+export type DeadLetterSink<Event = TriggerEvent<any, any, any>> =
+  | 'table'
+  | ((letter: DeadLetter<Event>) => void | Promise<void>);
+
+// Outcome of re-driving stored dead letters through a trigger's handlers
+export interface ReplayResult {
+  replayed: number;
+  failed: number;
+}
+
+// Defaults applied to every trigger in a registry
+export interface RegistryOptions {
+  retry?: RetryPolicy;
+  deadLetter?: DeadLetterSink;
+}
+
 // Builder state
 interface BuilderState<Client, M extends ModelName<Client> = any> {
   model?: M;
@@ -93,7 +260,7 @@ interface BuilderState<Client, M extends ModelName<Client> = any> {
   events?: TriggerOperation[];
   forEach?: TriggerForEach;
   watchColumns?: Array<ModelField<Client, M>>;
-  when?: string | ((c: ConditionBuilder<Client, M>) => Condition);
+  when?: string | Condition | ((c: ConditionBuilder<Client, M>) => Condition);
   functionName?: string;
   functionArgs?: string[];
   notify?: string;
@@ -116,48 +283,211 @@ export type FieldType<
     : never
   : never;
 
+// Condition builder helpers that compare OLD with NEW
+type TransitionHelper =
+  | 'changed'
+  | 'changedAny'
+  | 'changedTo'
+  | 'changedFrom'
+  | 'transitioned'
+  | 'becameNull'
+  | 'becameNotNull';
+
+// Records every one of the events has (see WhenRecords). Unnarrowed events
+// allow both.
+export type WhenRecordName<
+  Client,
+  M extends string,
+  E extends TriggerOperation
+> = TriggerOperation extends E
+  ? 'NEW' | 'OLD'
+  : keyof WhenRecords<Client, M, E> & ('NEW' | 'OLD');
+
+// Builder methods a trigger's events can't support. The transition helpers
+// need NEW; INSERT is guarded for them.
+type UnavailableWhen<
+  Client,
+  M extends string,
+  E extends TriggerOperation
+> =
+  | Exclude<'NEW' | 'OLD', WhenRecordName<Client, M, E>>
+  | ('NEW' extends WhenRecordName<Client, M, E> ? never : TransitionHelper);
+
+// The condition builder for a trigger's events, without the records some
+// event lacks
+export type WhenConditionBuilder<
+  Client,
+  M extends ModelName<Client>,
+  E extends TriggerOperation = TriggerOperation
+> = [UnavailableWhen<Client, M, E>] extends [never]
+  ? ConditionBuilder<Client, M>
+  : Omit<ConditionBuilder<Client, M>, UnavailableWhen<Client, M, E>>;
+
+// A value a BEFORE trigger can assign to a field: a literal of the field's
+// type, or a field or computed value that produces one
+export type SetValue<
+  Client,
+  M extends ModelName<Client>,
+  F extends ModelField<Client, M>
+> =
+  | FieldType<Client, M, F>
+  | ValueRef<FieldType<Client, M, F>>
+  | FieldRefOf<Client, M, FieldType<Client, M, F>>;
+
+// The fields a BEFORE trigger sets on the new row
+export type SetValues<Client, M extends ModelName<Client>> = {
+  [F in ModelField<Client, M>]?: SetValue<Client, M, F>;
+};
+
+// How a BEFORE trigger reports a write it rejects
+export interface RejectOptions {
+  message: string;
+  // SQLSTATE of the error, P0001 (raise_exception) by default
+  errcode?: string;
+}
+
+// A condition under which a BEFORE trigger rejects the write
+export type RejectRule<
+  Client,
+  M extends ModelName<Client>,
+  E extends TriggerOperation = TriggerOperation
+> = RejectOptions & {
+  when:
+    | string
+    | Condition
+    | ((c: WhenConditionBuilder<Client, M, E>) => Condition);
+};
+
+// A trigger function for `functions.define` to create and keep up to date
+export interface FunctionDefinition<A extends string = never> {
+  // The function's source, such as a PL/pgSQL `BEGIN ... END;` block
+  body: string;
+  // plpgsql by default
+  language?: string;
+  // Names of the arguments triggers pass; PL/pgSQL bodies can read them as
+  // TEXT variables instead of TG_ARGV
+  args?: readonly A[];
+  returns?: 'trigger';
+  // Run with the privileges of the function's owner instead of the caller's
+  security?: 'invoker' | 'definer';
+}
+
+// A trigger function managed by the library. It's created, or replaced if
+// its definition changed, when the first trigger using it is set up, and
+// dropped when the last one is.
+export interface TriggerFunction<A extends string = string> {
+  readonly name: string;
+  readonly args: readonly A[];
+  // Hash of the definition, kept in the function's comment
+  readonly version: string;
+  // Puts named argument values in the order the function reads them
+  toArgs(values: Record<A, string>): string[];
+  // Creates the function for a trigger being set up
+  acquire(trigger: string): Promise<void>;
+  // Drops the function once no trigger uses it
+  release(trigger: string): Promise<void>;
+}
+
 // Trigger configuration
 export type TriggerConfig<
   Client,
   M extends ModelName<Client>,
-  E extends TriggerOperation = TriggerOperation
+  E extends TriggerOperation = TriggerOperation,
+  S extends ModelField<Client, M> = ModelField<Client, M>,
+  R extends TriggerForEach = TriggerForEach
 > = {
   model: M;
   name?: string;
   timing: TriggerTiming;
   events: E[];
-  forEach: TriggerForEach;
+  // STATEMENT triggers that notify send one batch of rows per statement
+  forEach: R;
   functionName: string;
   watchColumns?: 'UPDATE' extends E ? Array<ModelField<Client, M>> : never;
-  when?: string | ((c: ConditionBuilder<Client, M>) => Condition);
+  when?:
+    | string
+    | Condition
+    | ((c: WhenConditionBuilder<Client, M, E>) => Condition);
   notify?: string;
+  // Fields a BEFORE trigger computes on the new row, instead of calling a
+  // function or notifying
+  set?:
+    | SetValues<Client, M>
+    | ((c: WhenConditionBuilder<Client, M, E>) => SetValues<Client, M>);
+  // Conditions under which a BEFORE trigger fails the write with an error
+  reject?: Array<RejectRule<Client, M, E>>;
+  // Create a constraint trigger, which can be deferred until commit
+  constraint?: ConstraintOptions;
+  // Only send these fields in notification payloads
+  select?: S[];
+  // How events reach listeners - directly over NOTIFY or through the outbox
+  delivery?: DeliveryMode;
+  // Retry failing handlers, then hand the event to the dead-letter sink
+  retry?: RetryPolicy;
+  deadLetter?: DeadLetterSink<HandleEvent<Client, M, TriggerOperation, S, R>>;
+  // Skip the notification for UPDATEs that leave every column unchanged
+  onlyIfChanged?: 'UPDATE' extends E ? boolean : never;
+  // A function from `functions.define`, set up and dropped with the trigger
+  function?: TriggerFunction;
   functionArgs?: string[];
 };
 
 // Trigger definition for registry
-export type TriggerDefinition<Client, M extends ModelName<Client>> = Omit<
-  TriggerConfig<Client, M>,
+export type TriggerDefinition<
+  Client,
+  M extends ModelName<Client>,
+  S extends ModelField<Client, M> = ModelField<Client, M>,
+  E extends TriggerOperation = TriggerOperation,
+  R extends TriggerForEach = 'ROW'
+> = Omit<
+  TriggerConfig<Client, M, E, S, R>,
   'model' | 'name' | 'functionName' | 'forEach'
 > & {
   model: M;
   name?: string;
   functionName?: string;
-  forEach?: TriggerForEach;
+  forEach?: R;
 };
 
-// Trigger handle interface
-export interface TriggerHandle<Client, M extends ModelName<Client>> {
-  readonly config: TriggerConfig<Client, M>;
+// Trigger handle interface. `E` is the set of operations the trigger fires on
+// and `R` whether it fires per row or per statement. With an `any` model
+// they default to `any`, so `TriggerHandle<Client, any>` holds any trigger.
+export interface TriggerHandle<
+  Client,
+  M extends ModelName<Client>,
+  S extends ModelField<Client, M> = AnyIfAny<M, ModelField<Client, M>>,
+  E extends TriggerOperation = AnyIfAny<M, TriggerOperation>,
+  R extends TriggerForEach = AnyIfAny<M, 'ROW'>
+> {
+  readonly config: TriggerConfig<Client, M, E, S, R>;
 
   setup(): Promise<void>;
   drop(): Promise<void>;
   listen(): Promise<void>;
   stop(): Promise<void>;
 
-  subscribe<E extends TriggerOperation>(
-    handler: (event: TriggerEvent<Client, M, E>) => void | Promise<void>
+  subscribe(
+    handler: (event: HandleEvent<Client, M, E, S, R>) => void | Promise<void>,
+    options?: SubscribeOptions<HandleEvent<Client, M, E, S, R>>
   ): () => void;
 
+  // Only receive events for one of the trigger's operations
+  on<O extends E>(
+    operation: O,
+    handler: (event: HandleEvent<Client, M, O, S, R>) => void | Promise<void>,
+    options?: SubscribeOptions<HandleEvent<Client, M, O, S, R>>
+  ): () => void;
+
+  // Consume events with `for await`; breaking out of the loop unsubscribes
+  events(
+    options?: EventStreamOptions
+  ): AsyncIterableIterator<HandleEvent<Client, M, E, S, R>>;
+  stream(
+    options?: EventStreamOptions
+  ): ReadableStream<HandleEvent<Client, M, E, S, R>>;
+
+  replayDeadLetters(): Promise<ReplayResult>;
+
   getStatus(): TriggerStatus;
   isSetup(): boolean;
   isListening(): boolean;
@@ -169,17 +499,23 @@ export interface TriggerHandle<Client, M extends ModelName<Client>> {
 export interface Registry<Client, TriggerMap = {}> {
   // Original methods
   add<M extends ModelName<Client>>(
-    modelOrTrigger: M | TriggerHandle<Client, any>,
+    modelOrTrigger: M | TriggerHandle<Client, any, any, any>,
     config?: Omit<TriggerConfig<Client, M>, 'model'>
   ): Registry<Client, TriggerMap>;
 
   // New method for defining triggers with IDs - returns new Registry with updated type
-  define<ID extends string, M extends ModelName<Client>>(
+  define<
+    ID extends string,
+    M extends ModelName<Client>,
+    S extends ModelField<Client, M> = ModelField<Client, M>,
+    E extends TriggerOperation = TriggerOperation,
+    R extends TriggerForEach = 'ROW'
+  >(
     id: ID,
-    definition: TriggerDefinition<Client, M>
+    definition: TriggerDefinition<Client, M, S, E, R>
   ): Registry<
     Client,
-    TriggerMap & { [K in ID]: TriggerEvent<Client, M, TriggerOperation> }
+    TriggerMap & { [K in ID]: HandleEvent<Client, M, E, S, R> }
   >;
 
   setup(): Promise<void>;
@@ -190,7 +526,18 @@ export interface Registry<Client, TriggerMap = {}> {
   // Listen to specific trigger by ID with full type safety
   on<K extends keyof TriggerMap>(
     triggerId: K,
-    handler: (event: TriggerMap[K]) => void | Promise<void>
+    handler: (event: TriggerMap[K]) => void | Promise<void>,
+    options?: SubscribeOptions<TriggerMap[K]>
+  ): () => void;
+
+  // Listen to one operation of a specific trigger
+  on<K extends keyof TriggerMap, O extends EventOperation<TriggerMap[K]>>(
+    triggerId: K,
+    operation: O,
+    handler: (
+      event: Extract<TriggerMap[K], { operation: O }>
+    ) => void | Promise<void>,
+    options?: SubscribeOptions<Extract<TriggerMap[K], { operation: O }>>
   ): () => void;
 
   // Overload for model names (backward compatibility)
@@ -198,7 +545,8 @@ export interface Registry<Client, TriggerMap = {}> {
     model: M,
     handler: (
       event: TriggerEvent<Client, M, TriggerOperation>
-    ) => void | Promise<void>
+    ) => void | Promise<void>,
+    options?: SubscribeOptions<TriggerEvent<Client, M, TriggerOperation>>
   ): () => void;
 
   // Listen to all triggers for a model
@@ -206,9 +554,25 @@ export interface Registry<Client, TriggerMap = {}> {
     model: M,
     handler: (
       event: TriggerEvent<Client, M, TriggerOperation>
-    ) => void | Promise<void>
+    ) => void | Promise<void>,
+    options?: SubscribeOptions<TriggerEvent<Client, M, TriggerOperation>>
   ): () => void;
 
+  // Consume a trigger's events with `for await` or as a web ReadableStream
+  events<K extends keyof TriggerMap>(
+    triggerId: K,
+    options?: EventStreamOptions
+  ): AsyncIterableIterator<TriggerMap[K]>;
+  stream<K extends keyof TriggerMap>(
+    triggerId: K,
+    options?: EventStreamOptions
+  ): ReadableStream<TriggerMap[K]>;
+
+  // Re-drive events stored in the dead-letter table for a trigger
+  replayDeadLetters(
+    triggerId: keyof TriggerMap & string
+  ): Promise<ReplayResult>;
+
   getStatus(): RegistryStatus;
   getTriggerIds(): string[];
 }
@@ -259,8 +623,36 @@ export interface TriggerManagerOptions {
   plugins?: TriggerPlugin[];
   lazy?: boolean;
   connectionPool?: {
+    /**
+     * @deprecated Ignored. LISTEN state belongs to a session, so the
+     * listener is always a single connection.
+     */
     listener?: number;
     transaction?: number;
   };
   prismaClient?: any; // The actual generated Prisma client instance for DMMF access
+  // Backoff in ms for re-establishing a dropped LISTEN connection
+  reconnect?: {
+    initialDelay?: number;
+    maxDelay?: number;
+  };
+}
+
+// Emitted before each attempt to re-establish the LISTEN connection
+export interface ReconnectingEvent {
+  attempt: number;
+  delay: number;
+}
+
+// Emitted once every channel is being listened to again
+export interface ReconnectedEvent {
+  attempt: number;
+  channels: string[];
+}
+
+// Events emitted by the trigger manager
+export interface TriggerManagerEvents {
+  reconnecting: ReconnectingEvent;
+  reconnected: ReconnectedEvent;
+  error: unknown;
 }
@@ -1,5 +1,13 @@
 // src/utils/condition-parser.ts
-import { ModelName } from '../types';
+import { ModelName, TriggerOperation, WhenRecordName } from '../types';
+import { Condition, ConditionSQL } from '../core/conditions';
+import {
+  getColumnName,
+  getScalarFields,
+  ScalarFieldInfo,
+  TableColumn
+} from './prisma';
+import { quoteIdent, quoteLiteral } from './sql';
 
 /**
  * Extract the record type from a Prisma model
@@ -18,116 +26,1108 @@ export type ModelRecord<
   : Record<string, unknown>;
 
 /**
- * Type-safe condition evaluator function
+ * Type-safe condition evaluator function. `E` limits the records to those
+ * every one of the trigger's events has.
  */
 export type ConditionEvaluator<
   Client,
-  M extends ModelName<Client>
+  M extends ModelName<Client>,
+  E extends TriggerOperation = TriggerOperation
 > = (records: {
-  NEW: ModelRecord<Client, M>;
-  OLD: ModelRecord<Client, M>;
+  [K in WhenRecordName<Client, M, E>]: ModelRecord<Client, M>;
 }) => boolean;
 
+/**
+ * A value that can be bound into a condition as an escaped literal
+ */
+export type BindingValue =
+  string | number | bigint | boolean | null | undefined | Date | BindingValue[];
+
+/**
+ * Outer values referenced by a condition function, keyed by identifier
+ */
+export type ConditionBindings = Record<string, BindingValue>;
+
+/**
+ * Thrown when a condition function uses JavaScript the compiler can't
+ * translate. `position` is the offset of the offending construct in `source`.
+ */
+export class ConditionCompileError extends Error {
+  constructor(
+    message: string,
+    readonly source: string,
+    readonly position: number
+  ) {
+    super(`${message}\n${excerpt(source, position)}`);
+    this.name = 'ConditionCompileError';
+  }
+}
+
+// Shows the line containing `position` with a caret under it
+function excerpt(source: string, position: number): string {
+  const lineStart = source.lastIndexOf('\n', position - 1) + 1;
+  const lineEnd = source.indexOf('\n', position);
+  const line = source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+  return `  ${line}\n  ${' '.repeat(position - lineStart)}^`;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenType = 'identifier' | 'number' | 'string' | 'punctuator' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+// Longest first so `===` wins over `==` and `=`
+const PUNCTUATORS = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '=>',
+  '<',
+  '>',
+  '!',
+  '-',
+  '+',
+  '(',
+  ')',
+  '{',
+  '}',
+  '[',
+  ']',
+  '.',
+  ',',
+  ';',
+  ':'
+];
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  v: '\v'
+};
+
+// Decodes the escape sequence starting at the backslash at `start`. Other
+// characters escape to themselves, as in JavaScript. Postgres text can't hold
+// NUL, so escapes for it are refused along with legacy octal escapes.
+function readEscape(
+  source: string,
+  start: number
+): { value: string; length: number } {
+  const next = source[start + 1];
+  const rest = source.slice(start + 1);
+
+  if (next in ESCAPES) return { value: ESCAPES[next], length: 2 };
+
+  // Line continuations contribute nothing to the string
+  const newline = /^(\r\n|[\n\r\u2028\u2029])/.exec(rest);
+  if (newline) return { value: '', length: 1 + newline[0].length };
+
+  const hex = /^(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4})/.exec(rest);
+  if (hex && parseInt(hex[0].slice(1), 16) !== 0) {
+    return {
+      value: String.fromCharCode(parseInt(hex[0].slice(1), 16)),
+      length: 1 + hex[0].length
+    };
+  }
+
+  const codePoint = /^u\{([0-9a-fA-F]+)\}/.exec(rest);
+  const code = codePoint ? parseInt(codePoint[1], 16) : 0;
+  if (codePoint && code !== 0 && code <= 0x10ffff) {
+    return {
+      value: String.fromCodePoint(code),
+      length: 1 + codePoint[0].length
+    };
+  }
+
+  if (/[0-9xu]/.test(next)) {
+    throw new ConditionCompileError(
+      'Invalid or unsupported escape sequence',
+      source,
+      start
+    );
+  }
+
+  return { value: next, length: 2 };
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Comments
+    if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      i = end === -1 ? source.length : end;
+      continue;
+    }
+    if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new ConditionCompileError('Unterminated comment', source, i);
+      }
+      i = end + 2;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z0-9_$]+/.exec(source.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1]))) {
+      const match =
+        /^(\d+n|0[xX][0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/.exec(
+          source.slice(i)
+        )!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      const start = i;
+      let value = '';
+      i++;
+
+      while (i < source.length && source[i] !== char) {
+        if (char === '`' && source.startsWith('${', i)) {
+          throw new ConditionCompileError(
+            'Template literal interpolation is not supported',
+            source,
+            i
+          );
+        }
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const escape = readEscape(source, i);
+          value += escape.value;
+          i += escape.length;
+        } else {
+          value += source[i];
+          i++;
+        }
+      }
+
+      if (i >= source.length) {
+        throw new ConditionCompileError('Unterminated string', source, start);
+      }
+
+      tokens.push({ type: 'string', value, position: start });
+      i++;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, i));
+    if (punctuator) {
+      tokens.push({ type: 'punctuator', value: punctuator, position: i });
+      i += punctuator.length;
+      continue;
+    }
+
+    throw new ConditionCompileError(
+      `Unsupported character '${char}'`,
+      source,
+      i
+    );
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+type RecordName = 'NEW' | 'OLD';
+
+type LiteralValue = string | number | bigint | boolean | null;
+
+// Expression tree for the supported subset
+type Node =
+  | {
+      kind: 'literal';
+      value: LiteralValue;
+      position: number;
+    }
+  | { kind: 'array'; elements: Node[]; position: number }
+  | { kind: 'records'; position: number }
+  | { kind: 'record'; record: RecordName; position: number }
+  | { kind: 'field'; record: RecordName; field: string; position: number }
+  | { kind: 'member'; object: Node; property: string; position: number }
+  | {
+      kind: 'call';
+      object: Node;
+      method: string;
+      args: Node[];
+      position: number;
+    }
+  | { kind: 'not'; operand: Node; position: number }
+  | { kind: 'negate'; operand: Node; position: number }
+  | {
+      kind: 'binary';
+      operator: string;
+      left: Node;
+      right: Node;
+      position: number;
+    };
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  // Names the function's parameters are bound to
+  private params = new Map<string, 'records' | RecordName>();
+
+  constructor(
+    private source: string,
+    private bindings: ConditionBindings = {}
+  ) {
+    this.tokens = tokenize(source);
+  }
+
+  /**
+   * function := ['async'] ('function' [name] params block | params '=>' body)
+   */
+  parseFunction(): Node {
+    if (this.isIdentifier('async')) this.next();
+
+    let body: Node;
+    if (this.isIdentifier('function')) {
+      this.next();
+      if (this.peek().type === 'identifier') this.next();
+      this.parseParams();
+      body = this.parseBlock();
+    } else {
+      this.parseParams();
+      this.expect('=>');
+      body = this.isPunctuator('{')
+        ? this.parseBlock()
+        : this.parseExpression();
+    }
+
+    this.expectEnd();
+    return body;
+  }
+
+  private parseParams(): void {
+    // Single parameter without parentheses: `records => ...`
+    if (this.peek().type === 'identifier') {
+      this.params.set(this.next().value, 'records');
+      return;
+    }
+
+    this.expect('(');
+    if (this.isPunctuator('{')) {
+      this.parseDestructuring();
+    } else if (this.peek().type === 'identifier') {
+      this.params.set(this.next().value, 'records');
+    }
+    this.expect(')');
+  }
+
+  // `{ NEW, OLD }` or renamed, as minifiers emit: `{ NEW: e, OLD: t }`
+  private parseDestructuring(): void {
+    this.expect('{');
+
+    while (!this.isPunctuator('}')) {
+      const key = this.expectIdentifier();
+      if (key.value !== 'NEW' && key.value !== 'OLD') {
+        this.fail(`Unknown record '${key.value}', expected NEW or OLD`, key);
+      }
+
+      let alias = key.value;
+      if (this.isPunctuator(':')) {
+        this.next();
+        alias = this.expectIdentifier().value;
+      }
+      this.params.set(alias, key.value as RecordName);
+
+      if (!this.isPunctuator(',')) break;
+      this.next();
+    }
+
+    this.expect('}');
+  }
+
+  // `{ return expression; }`
+  private parseBlock(): Node {
+    this.expect('{');
+    const keyword = this.expectIdentifier();
+    if (keyword.value !== 'return') {
+      this.fail('Only a single return statement is supported', keyword);
+    }
+
+    const body = this.parseExpression();
+    if (this.isPunctuator(';')) this.next();
+    this.expect('}');
+    return body;
+  }
+
+  private parseExpression(): Node {
+    return this.parseBinary(0);
+  }
+
+  // Binary operators by precedence, loosest first
+  private static readonly PRECEDENCE = [
+    ['||'],
+    ['&&'],
+    ['===', '!==', '==', '!='],
+    ['<', '<=', '>', '>=']
+  ];
+
+  private parseBinary(level: number): Node {
+    if (level === Parser.PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    while (
+      this.peek().type === 'punctuator' &&
+      Parser.PRECEDENCE[level].includes(this.peek().value)
+    ) {
+      const operator = this.next();
+      const right = this.parseBinary(level + 1);
+      left = {
+        kind: 'binary',
+        operator: operator.value,
+        left,
+        right,
+        position: operator.position
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+
+    if (this.isPunctuator('!')) {
+      this.next();
+      const operand = this.parseUnary();
+      // Minifiers write true and false as !0 and !1
+      if (operand.kind === 'literal' && typeof operand.value === 'number') {
+        return {
+          kind: 'literal',
+          value: !operand.value,
+          position: token.position
+        };
+      }
+      return { kind: 'not', operand, position: token.position };
+    }
+
+    if (this.isPunctuator('-')) {
+      this.next();
+      return {
+        kind: 'negate',
+        operand: this.parseUnary(),
+        position: token.position
+      };
+    }
+
+    // `void 0` is how minifiers write undefined
+    if (this.isIdentifier('void')) {
+      this.next();
+      this.parseUnary();
+      return { kind: 'literal', value: null, position: token.position };
+    }
+
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Node {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.isPunctuator('.')) {
+        this.next();
+        const property = this.expectIdentifier();
+        node = this.member(node, property.value, property.position);
+      } else if (this.isPunctuator('[')) {
+        const open = this.next();
+        const key = this.parseExpression();
+        this.expect(']');
+        if (key.kind !== 'literal' || typeof key.value !== 'string') {
+          this.fail('Only string literals can be used as computed keys', open);
+        }
+        node = this.member(node, key.value as string, key.position);
+      } else if (this.isPunctuator('(')) {
+        const open = this.next();
+        if (node.kind !== 'member') {
+          this.fail(
+            'Only method calls on fields and arrays are supported',
+            open
+          );
+        }
+        const member = node as Extract<Node, { kind: 'member' }>;
+        node = {
+          kind: 'call',
+          object: member.object,
+          method: member.property,
+          args: this.parseList(')'),
+          position: member.position
+        };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  // Resolves `records.NEW`, `NEW.field` and method names
+  private member(object: Node, property: string, position: number): Node {
+    if (object.kind === 'records') {
+      if (property !== 'NEW' && property !== 'OLD') {
+        this.failAt(
+          `Unknown record '${property}', expected NEW or OLD`,
+          position
+        );
+      }
+      return { kind: 'record', record: property as RecordName, position };
+    }
+
+    if (object.kind === 'record') {
+      return {
+        kind: 'field',
+        record: object.record,
+        field: property,
+        position
+      };
+    }
+
+    return { kind: 'member', object, property, position };
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'string':
+        return {
+          kind: 'literal',
+          value: token.value,
+          position: token.position
+        };
+
+      case 'number':
+        return {
+          kind: 'literal',
+          // BigInt literals like 10n keep their precision
+          value: token.value.endsWith('n')
+            ? BigInt(token.value.slice(0, -1))
+            : Number(token.value),
+          position: token.position
+        };
+
+      case 'identifier': {
+        const param = this.params.get(token.value);
+        if (param === 'records') {
+          return { kind: 'records', position: token.position };
+        }
+        if (param) {
+          return { kind: 'record', record: param, position: token.position };
+        }
+
+        if (Object.prototype.hasOwnProperty.call(this.bindings, token.value)) {
+          return this.bind(token, this.bindings[token.value]);
+        }
+
+        switch (token.value) {
+          case 'true':
+            return { kind: 'literal', value: true, position: token.position };
+          case 'false':
+            return { kind: 'literal', value: false, position: token.position };
+          case 'null':
+          case 'undefined':
+            return { kind: 'literal', value: null, position: token.position };
+        }
+
+        return this.fail(
+          `Unknown identifier '${token.value}'; pass it as a binding, e.g. when(fn, { ${token.value} })`,
+          token
+        );
+      }
+
+      case 'punctuator':
+        if (token.value === '(') {
+          const expression = this.parseExpression();
+          this.expect(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          return {
+            kind: 'array',
+            elements: this.parseList(']'),
+            position: token.position
+          };
+        }
+        return this.fail(`Unsupported syntax '${token.value}'`, token);
+
+      default:
+        return this.fail('Unexpected end of condition', token);
+    }
+  }
+
+  // Turns a bound outer value into a literal
+  private bind(token: Token, value: BindingValue): Node {
+    const position = token.position;
+
+    if (value === null || value === undefined) {
+      return { kind: 'literal', value: null, position };
+    }
+    if (Array.isArray(value)) {
+      return {
+        kind: 'array',
+        elements: value.map((element) => this.bind(token, element)),
+        position
+      };
+    }
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) {
+        this.fail(`Binding '${token.value}' is an invalid Date`, token);
+      }
+      return { kind: 'literal', value: value.toISOString(), position };
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      this.fail(`Binding '${token.value}' is not a finite number`, token);
+    }
+
+    switch (typeof value) {
+      case 'string':
+      case 'number':
+      case 'bigint':
+      case 'boolean':
+        return { kind: 'literal', value, position };
+    }
+
+    return this.fail(
+      `Binding '${token.value}' has an unsupported type '${typeof value}'`,
+      token
+    );
+  }
+
+  // Comma-separated expressions up to a closing punctuator
+  private parseList(close: string): Node[] {
+    const items: Node[] = [];
+
+    while (!this.isPunctuator(close)) {
+      items.push(this.parseExpression());
+      if (!this.isPunctuator(',')) break;
+      this.next();
+    }
+
+    this.expect(close);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private isPunctuator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuator' && token.value === value;
+  }
+
+  private isIdentifier(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    if (!this.isPunctuator(value)) {
+      this.fail(`Expected '${value}'`, this.peek());
+    }
+    return this.next();
+  }
+
+  private expectIdentifier(): Token {
+    if (this.peek().type !== 'identifier') {
+      this.fail('Expected an identifier', this.peek());
+    }
+    return this.next();
+  }
+
+  private expectEnd(): void {
+    if (this.isPunctuator(';')) this.next();
+    if (this.peek().type !== 'end') {
+      this.fail(`Unsupported syntax '${this.peek().value}'`, this.peek());
+    }
+  }
+
+  private fail(message: string, token: Token): never {
+    return this.failAt(message, token.position);
+  }
+
+  private failAt(message: string, position: number): never {
+    throw new ConditionCompileError(message, this.source, position);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SQL generation
+// ---------------------------------------------------------------------------
+
+// SQL precedence of the generated operators, loosest first
+const SQL_PRECEDENCE: Record<string, number> = {
+  OR: 1,
+  AND: 2,
+  NOT: 3,
+  comparison: 4
+};
+
+interface Compiled {
+  sql: string;
+  precedence: number;
+  // What the expression evaluates to, for type-aware translation. Fields
+  // the DMMF doesn't know are 'unknown'.
+  type: 'string' | 'number' | 'boolean' | 'list' | 'other' | 'unknown';
+}
+
+const COMPARISONS: Record<string, string> = {
+  '===': '=',
+  '==': '=',
+  '!==': '<>',
+  '!=': '<>',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>='
+};
+
+const ATOM = 5;
+
+class SQLCompiler {
+  private fields: Map<string, ScalarFieldInfo>;
+
+  constructor(
+    private source: string,
+    private modelName?: string,
+    columns: TableColumn[] = []
+  ) {
+    this.fields = new Map(
+      (modelName ? getScalarFields(modelName, columns) : []).map((f) => [
+        f.name,
+        f
+      ])
+    );
+  }
+
+  // The condition itself, which is true when the expression is truthy
+  compileCondition(node: Node): Compiled {
+    return this.truthy(this.compile(node), false);
+  }
+
+  compile(node: Node): Compiled {
+    switch (node.kind) {
+      case 'literal':
+        return {
+          sql: literal(node.value),
+          precedence: ATOM,
+          type: literalType(node.value)
+        };
+
+      case 'field': {
+        const field = this.fields.get(node.field);
+        const column =
+          field?.column ??
+          (this.modelName
+            ? getColumnName(this.modelName, node.field)
+            : node.field);
+        return {
+          sql: `${node.record}.${quoteIdent(column)}`,
+          precedence: ATOM,
+          type: fieldType(field)
+        };
+      }
+
+      case 'negate': {
+        const operand = this.compile(node.operand);
+        // `--` would start an SQL comment
+        const sql = operand.sql.startsWith('-')
+          ? `(${operand.sql})`
+          : this.wrap(operand, ATOM);
+        return {
+          sql: `-${sql}`,
+          precedence: ATOM,
+          type: 'number'
+        };
+      }
+
+      case 'not':
+        return this.truthy(this.compile(node.operand), true);
+
+      case 'binary':
+        return this.compileBinary(node);
+
+      case 'call':
+        return this.compileCall(node);
+
+      case 'member':
+        if (node.property === 'length') {
+          const object = this.compile(node.object);
+          const fn = object.type === 'list' ? 'cardinality' : 'char_length';
+          return {
+            sql: `${fn}(${object.sql})`,
+            precedence: ATOM,
+            type: 'number'
+          };
+        }
+        return this.fail(`Unsupported property '${node.property}'`, node);
+
+      case 'array':
+        return this.fail('Arrays can only be used with .includes()', node);
+
+      case 'records':
+      case 'record':
+        return this.fail('Expected a field, e.g. NEW.status', node);
+    }
+  }
+
+  private compileBinary(node: Extract<Node, { kind: 'binary' }>): Compiled {
+    if (node.operator === '&&' || node.operator === '||') {
+      const keyword = node.operator === '&&' ? 'AND' : 'OR';
+      const precedence = SQL_PRECEDENCE[keyword];
+      const left = this.compileCondition(node.left);
+      const right = this.compileCondition(node.right);
+      return {
+        sql: `${this.wrap(left, precedence)} ${keyword} ${this.wrap(right, precedence)}`,
+        precedence,
+        type: 'boolean'
+      };
+    }
+
+    const operator = COMPARISONS[node.operator];
+    const precedence = SQL_PRECEDENCE.comparison;
+
+    // Comparisons with null become IS [NOT] NULL
+    const isNull = (n: Node) => n.kind === 'literal' && n.value === null;
+    if (isNull(node.left) || isNull(node.right)) {
+      if (operator !== '=' && operator !== '<>') {
+        this.fail(`Can't compare null with '${node.operator}'`, node);
+      }
+      const other = this.compile(isNull(node.left) ? node.right : node.left);
+      return {
+        sql: `${this.wrap(other, ATOM)} ${operator === '=' ? 'IS NULL' : 'IS NOT NULL'}`,
+        precedence,
+        type: 'boolean'
+      };
+    }
+
+    const left = this.compile(node.left);
+    const right = this.compile(node.right);
+    return {
+      sql: `${this.wrap(left, ATOM)} ${operator} ${this.wrap(right, ATOM)}`,
+      precedence,
+      type: 'boolean'
+    };
+  }
+
+  private compileCall(node: Extract<Node, { kind: 'call' }>): Compiled {
+    const { method, args } = node;
+
+    // ['a', 'b'].includes(NEW.status) → NEW."status" IN ('a', 'b')
+    if (node.object.kind === 'array') {
+      if (method !== 'includes' || args.length !== 1) {
+        this.fail(`Unsupported array method '${method}()'`, node);
+      }
+      const value = this.compile(args[0]);
+      const elements = node.object.elements.map((e) => this.compile(e).sql);
+      return {
+        sql:
+          elements.length === 0
+            ? 'FALSE'
+            : `${this.wrap(value, ATOM)} IN (${elements.join(', ')})`,
+        precedence: SQL_PRECEDENCE.comparison,
+        type: 'boolean'
+      };
+    }
+
+    const object = this.compile(node.object);
+    const receiver = this.wrap(object, ATOM);
+
+    switch (method) {
+      case 'toLowerCase':
+      case 'toUpperCase':
+      case 'trim': {
+        this.expectArgs(node, 0);
+        const fn = {
+          toLowerCase: 'LOWER',
+          toUpperCase: 'UPPER',
+          trim: 'BTRIM'
+        }[method];
+        return {
+          sql: `${fn}(${object.sql})`,
+          precedence: ATOM,
+          type: 'string'
+        };
+      }
+
+      case 'includes': {
+        this.expectArgs(node, 1);
+        const value = this.compile(args[0]);
+        // Arrays test membership; everything else is treated as text
+        if (object.type === 'list') {
+          return {
+            sql: `${receiver} @> ARRAY[${value.sql}]`,
+            precedence: SQL_PRECEDENCE.comparison,
+            type: 'boolean'
+          };
+        }
+        return this.matchText(receiver, args[0], value, '%', '%', 'strpos');
+      }
+
+      case 'startsWith':
+        this.expectArgs(node, 1);
+        return this.matchText(
+          receiver,
+          args[0],
+          this.compile(args[0]),
+          '',
+          '%',
+          'starts_with'
+        );
+
+      case 'endsWith':
+        this.expectArgs(node, 1);
+        return this.matchText(
+          receiver,
+          args[0],
+          this.compile(args[0]),
+          '%',
+          '',
+          'right'
+        );
+
+      default:
+        return this.fail(`Unsupported method '${method}()'`, node);
+    }
+  }
+
+  // A LIKE pattern for literal arguments, a function call otherwise
+  private matchText(
+    receiver: string,
+    argument: Node,
+    value: Compiled,
+    prefix: string,
+    suffix: string,
+    fn: 'strpos' | 'starts_with' | 'right'
+  ): Compiled {
+    const precedence = SQL_PRECEDENCE.comparison;
+
+    if (argument.kind === 'literal' && typeof argument.value === 'string') {
+      const escaped = argument.value.replace(/[\\%_]/g, '\\$&');
+      return {
+        sql: `${receiver} LIKE ${literal(prefix + escaped + suffix)}`,
+        precedence,
+        type: 'boolean'
+      };
+    }
+
+    const sql = {
+      strpos: `strpos(${receiver}, ${value.sql}) > 0`,
+      starts_with: `starts_with(${receiver}, ${value.sql})`,
+      right: `right(${receiver}, char_length(${value.sql})) = ${value.sql}`
+    }[fn];
+    return { sql, precedence, type: 'boolean' };
+  }
+
+  // JavaScript truthiness, for `!` and the operands of && and ||: empty
+  // strings and zero are falsy like null, and other values only when null
+  private truthy(compiled: Compiled, negated: boolean): Compiled {
+    const precedence = SQL_PRECEDENCE.comparison;
+    const operand = this.wrap(compiled, ATOM);
+
+    switch (compiled.type) {
+      case 'boolean':
+      case 'unknown':
+        return negated
+          ? {
+              sql: `NOT ${this.wrap(compiled, SQL_PRECEDENCE.NOT)}`,
+              precedence: SQL_PRECEDENCE.NOT,
+              type: 'boolean'
+            }
+          : compiled;
+
+      case 'string':
+      case 'number': {
+        const empty = compiled.type === 'string' ? "''" : '0';
+        return {
+          sql: `COALESCE(${compiled.sql}, ${empty}) ${negated ? '=' : '<>'} ${empty}`,
+          precedence,
+          type: 'boolean'
+        };
+      }
+
+      default:
+        return {
+          sql: `${operand} ${negated ? 'IS NULL' : 'IS NOT NULL'}`,
+          precedence,
+          type: 'boolean'
+        };
+    }
+  }
+
+  private expectArgs(
+    node: Extract<Node, { kind: 'call' }>,
+    count: number
+  ): void {
+    if (node.args.length !== count) {
+      this.fail(
+        `'${node.method}()' takes ${count} argument${count === 1 ? '' : 's'}`,
+        node
+      );
+    }
+  }
+
+  // Parenthesizes an expression that binds more loosely than its context
+  private wrap(compiled: Compiled, precedence: number): string {
+    return compiled.precedence < precedence
+      ? `(${compiled.sql})`
+      : compiled.sql;
+  }
+
+  private fail(message: string, node: Node): never {
+    throw new ConditionCompileError(message, this.source, node.position);
+  }
+}
+
+function literal(value: LiteralValue): string {
+  if (value === null) return 'NULL';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return String(value);
+  }
+  return quoteLiteral(value);
+}
+
+function literalType(value: LiteralValue): Compiled['type'] {
+  switch (typeof value) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'bigint':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'other';
+  }
+}
+
+function fieldType(field?: ScalarFieldInfo): Compiled['type'] {
+  if (!field) return 'unknown';
+  if (field.isList) return 'list';
+
+  switch (field.type) {
+    case 'String':
+      return 'string';
+    case 'Int':
+    case 'Float':
+    case 'BigInt':
+    case 'Decimal':
+      return 'number';
+    case 'Boolean':
+      return 'boolean';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * A condition compiled from a function's source. The source is parsed when
+ * the condition is created, so unsupported code fails where it's written,
+ * and the SQL is generated for the table's columns once they're known,
+ * since the runtime DMMF doesn't say which fields are arrays.
+ */
+export class FunctionCondition implements Condition {
+  private source: string;
+  private expression: Node;
+
+  constructor(
+    condition: (...args: any[]) => unknown,
+    private modelName?: string,
+    bindings?: ConditionBindings
+  ) {
+    this.source = condition.toString();
+    this.expression = new Parser(this.source, bindings).parseFunction();
+  }
+
+  toSQL(columns: TableColumn[] = []): ConditionSQL {
+    const compiler = new SQLCompiler(this.source, this.modelName, columns);
+    return compiler.compileCondition(this.expression).sql as ConditionSQL;
+  }
+}
+
 /**
  * Converts JavaScript function conditions to SQL WHERE conditions
  *
+ * The function is parsed rather than pattern-matched, so minified code,
+ * nested parentheses and operators inside strings are handled. The supported
+ * subset is:
+ * - parameters: `({ NEW, OLD })`, renamed (`({ NEW: n })`) or a single
+ *   `records` parameter used as `records.NEW`
+ * - a single expression body, or a block with one `return`
+ * - fields: `NEW.field` and `NEW['field']`
+ * - literals: strings, numbers, booleans, `null` and `undefined`
+ * - outer values passed in `bindings`, inlined as escaped literals
+ * - operators: `=== == !== != < <= > >= && || !` and unary `-`
+ * - methods: `includes`, `startsWith`, `endsWith`, `toLowerCase`,
+ *   `toUpperCase`, `trim`, `length`, and `[...].includes(field)` for IN
+ *
+ * With a model name, fields are mapped to their columns and typed with the
+ * DMMF. `!`, `&&` and `||` follow JavaScript truthiness, so `!NEW.name` is
+ * true for NULL and empty text. Which fields are arrays comes from the
+ * table's catalog `columns`, which triggers read when they're set up; with
+ * them, `includes` on an array field becomes `@>`.
+ *
  * Examples:
  * - `NEW.status === 'active'` → `NEW."status" = 'active'`
  * - `OLD.price < NEW.price` → `OLD."price" < NEW."price"`
  * - `NEW.name.includes('test')` → `NEW."name" LIKE '%test%'`
+ * - `!OLD.name` → `COALESCE(OLD."name", '') = ''`
+ * - `NEW.tags.includes('urgent')` → `NEW."tags" @> ARRAY['urgent']`, given
+ *   columns that mark `tags` as an array
  *
  * @param condition - A function that defines the condition using NEW and OLD records
+ * @param modelName - The model the condition is for, used for column names and types
+ * @param bindings - Outer values the condition refers to by name
+ * @param columns - The table's columns, used to tell array fields apart
  * @returns SQL string for the condition
+ * @throws ConditionCompileError pointing at the first unsupported construct
  */
 export function buildWhereCondition<Client, M extends ModelName<Client>>(
-  condition: ConditionEvaluator<Client, M>
+  condition: ConditionEvaluator<Client, M>,
+  modelName?: string,
+  bindings?: ConditionBindings,
+  columns?: TableColumn[]
 ): string {
-  // Get the function body as string
-  const conditionStr = condition.toString();
-
-  // Extract the relevant part of the function
-  let body = conditionStr
-    .replace(/^[^{]*{\s*/, '') // Remove everything up to opening brace
-    .replace(/\s*}[^}]*$/, '') // Remove closing brace and after
-    .replace(/^\s*return\s+/, '') // Remove return statement
-    .replace(/;$/, '') // Remove trailing semicolon
-    .trim();
-
-  // If it's an arrow function without braces, extract after =>
-  if (!body && conditionStr.includes('=>')) {
-    body = conditionStr.replace(/^.*=>\s*/, '').trim();
-  }
-
-  // Process the condition in steps to avoid conflicts
-
-  // Step 1: Extract and store string literals first
-  const stringLiterals: string[] = [];
-  let processedBody = body.replace(
-    /"([^"]*)"|'([^']*)'|`([^`]*)`/g,
-    (match, double, single, template) => {
-      const content = double || single || template;
-      const placeholder = `__STRING_LITERAL_${stringLiterals.length}__`;
-      stringLiterals.push(content);
-      return placeholder;
-    }
-  );
-
-  // Step 2: Handle null/undefined checks
-  processedBody = processedBody
-    .replace(/===\s*null/g, ' IS NULL')
-    .replace(/!==\s*null/g, ' IS NOT NULL')
-    .replace(/==\s*null/g, ' IS NULL')
-    .replace(/!=\s*null/g, ' IS NOT NULL')
-    .replace(/===\s*undefined/g, ' IS NULL')
-    .replace(/!==\s*undefined/g, ' IS NOT NULL');
-
-  // Step 3: Handle field access (NEW.field, OLD.field)
-  processedBody = processedBody
-    .replace(/NEW\.(\w+)/g, 'NEW."$1"')
-    .replace(/OLD\.(\w+)/g, 'OLD."$1"');
-
-  // Step 4: Handle common operators
-  processedBody = processedBody
-    .replace(/===|==/g, '=')
-    .replace(/!==|!=/g, '<>')
-    .replace(/&&/g, ' AND ')
-    .replace(/\|\|/g, ' OR ')
-    .replace(/!/g, 'NOT ');
-
-  // Step 5: Handle common method patterns
-  processedBody = processedBody
-    // String methods
-    .replace(/\.includes\(([^)]+)\)/g, " LIKE '%' || $1 || '%'")
-    .replace(/\.startsWith\(([^)]+)\)/g, " LIKE $1 || '%'")
-    .replace(/\.endsWith\(([^)]+)\)/g, " LIKE '%' || $1")
-    .replace(/\.toLowerCase\(\)\s*=\s*([^)]+)/g, ' ILIKE $1') // Case-insensitive
-    .replace(/\.toUpperCase\(\)\s*=\s*([^)]+)/g, ' ILIKE $1')
-
-    // Array methods (for PostgreSQL arrays)
-    .replace(/\.includes\(([^)]+)\)/g, ' @> ARRAY[$1]')
-
-    // Remove method calls that don't translate
-    .replace(/\.toLowerCase\(\)/g, '')
-    .replace(/\.toUpperCase\(\)/g, '')
-    .replace(/\.trim\(\)/g, '');
-
-  // Step 6: Handle parentheses and boolean logic
-  processedBody = processedBody
-    .replace(/\(\s*([^)]+)\s*\)/g, '($1)') // Clean up parentheses spacing
-    .replace(/NOT\s+NOT/g, ''); // Double negation
-
-  // Step 7: Restore string literals as SQL string literals
-  processedBody = stringLiterals.reduce((body, literal, index) => {
-    return body.replace(
-      `__STRING_LITERAL_${index}__`,
-      `'${literal.replace(/'/g, "''")}'`
-    );
-  }, processedBody);
-
-  // Step 8: Clean up extra spaces
-  processedBody = processedBody.replace(/\s+/g, ' ').trim();
-
-  return processedBody;
+  return new FunctionCondition(condition, modelName, bindings).toSQL(columns);
 }
 
 /**
@@ -137,29 +1137,3 @@ export function createCondition<Client, M extends ModelName<Client>>() {
   return (evaluator: ConditionEvaluator<Client, M>): string =>
     buildWhereCondition(evaluator);
 }
-
-/**
- * Examples of supported JavaScript to SQL conversions:
- *
- * Basic comparisons:
- * - `NEW.status === 'active'` → `NEW."status" = 'active'`
- * - `OLD.amount > 100` → `OLD."amount" > 100`
- * - `NEW.date >= OLD.date` → `NEW."date" >= OLD."date"`
- *
- * Null checks:
- * - `NEW.listId === null` → `NEW."listId" IS NULL`
- * - `OLD.deletedAt !== null` → `OLD."deletedAt" IS NOT NULL`
- *
- * Boolean logic:
- * - `NEW.active && OLD.active` → `NEW."active" AND OLD."active"`
- * - `NEW.status === 'A' || NEW.status === 'B'` → `NEW."status" = 'A' OR NEW."status" = 'B'`
- *
- * String operations:
- * - `NEW.name.includes('test')` → `NEW."name" LIKE '%test%'`
- * - `NEW.email.startsWith('admin')` → `NEW."email" LIKE 'admin%'`
- * - `NEW.code.endsWith('_v2')` → `NEW."code" LIKE '%_v2'`
- *
- * Complex conditions:
- * - `(NEW.status === 'active' && OLD.status !== 'active') || NEW.priority > 5`
- *   → `(NEW."status" = 'active' AND OLD."status" <> 'active') OR NEW."priority" > 5`
- */
@@ -0,0 +1,130 @@
+// src/utils/payload-reviver.ts
+import { Prisma } from '@prisma/client';
+import { getScalarFields, ScalarFieldInfo } from './prisma';
+
+/**
+ * Prisma types whose values are sent as text so JSON numbers can't lose
+ * precision
+ */
+export const TEXT_ENCODED_TYPES = ['BigInt', 'Decimal'];
+
+/**
+ * Rebuilds a parsed notification payload with the runtime types Prisma would
+ * return
+ */
+export type PayloadReviver = (payload: any) => any;
+
+// Offsets look like Z, +00, +05:30 or -0800
+const UTC_OFFSET = /(Z|[+-]\d{2}(:?\d{2})?)$/i;
+
+/**
+ * Parses a timestamp, date or time as PostgreSQL renders them in JSON.
+ * Values without an offset are UTC, as Prisma stores them.
+ */
+function parseDateTime(value: string): Date {
+  // TIME columns come back on the epoch date, like Prisma does
+  const withDate = /^\d{2}:\d{2}/.test(value) ? `1970-01-01T${value}` : value;
+
+  if (withDate.includes('T') && !UTC_OFFSET.test(withDate)) {
+    return new Date(`${withDate}Z`);
+  }
+  return new Date(withDate);
+}
+
+function reviveScalar(type: string, value: any): any {
+  switch (type) {
+    case 'DateTime':
+      return typeof value === 'string' ? parseDateTime(value) : value;
+    case 'BigInt':
+      return BigInt(value);
+    case 'Decimal':
+      // The generated client's Decimal, so instanceof Prisma.Decimal holds
+      return new Prisma.Decimal(value);
+    case 'Bytes':
+      // bytea is rendered as \x followed by hex digits
+      return Buffer.from(String(value).replace(/^\\x/, ''), 'hex');
+    default:
+      return value;
+  }
+}
+
+function reviveValue(field: ScalarFieldInfo, value: any): any {
+  if (value === null || value === undefined) return value;
+
+  // None of the revived types are arrays in JSON, so an array is a list
+  // field; the runtime DMMF doesn't say which fields are lists
+  if (field.type !== 'Json' && Array.isArray(value)) {
+    return value.map((item) =>
+      item === null ? item : reviveScalar(field.type, item)
+    );
+  }
+
+  return reviveScalar(field.type, value);
+}
+
+/**
+ * Creates a reviver for a model's notification payloads, per row or per
+ * statement. Keys of whole rows are column names, so `keys: 'column'` also
+ * renames them to field names; projected payloads are already keyed by field.
+ *
+ * Without DMMF access only the event timestamp is revived.
+ */
+export function createPayloadReviver(
+  modelName: string,
+  options: { keys: 'field' | 'column' }
+): PayloadReviver {
+  const fields = new Map(
+    getScalarFields(modelName).map((field) => [
+      options.keys === 'column' ? field.column : field.name,
+      field
+    ])
+  );
+
+  const reviveRecord = (record: any): any => {
+    if (!record || typeof record !== 'object') return record;
+
+    const revived: Record<string, any> = {};
+    for (const [key, value] of Object.entries(record)) {
+      const field = fields.get(key);
+      revived[field?.name ?? key] = field ? reviveValue(field, value) : value;
+    }
+    return revived;
+  };
+
+  const reviveChanges = (changes: any): any => {
+    if (!changes || typeof changes !== 'object') return changes;
+
+    const revived: Record<string, any> = {};
+    for (const [key, change] of Object.entries<any>(changes)) {
+      const field = fields.get(key);
+      revived[field?.name ?? key] = field
+        ? {
+            from: reviveValue(field, change.from),
+            to: reviveValue(field, change.to)
+          }
+        : change;
+    }
+    return revived;
+  };
+
+  // Statement-level payloads batch their rows, as pairs for UPDATE
+  const reviveRows = (operation: string, rows: any[]): any[] =>
+    rows.map((row) =>
+      operation === 'UPDATE'
+        ? { old: reviveRecord(row.old), new: reviveRecord(row.new) }
+        : reviveRecord(row)
+    );
+
+  return (payload) => ({
+    ...payload,
+    timestamp:
+      typeof payload.timestamp === 'string'
+        ? parseDateTime(payload.timestamp)
+        : payload.timestamp,
+    ...(Array.isArray(payload.rows)
+      ? { rows: reviveRows(payload.operation, payload.rows) }
+      : { data: reviveRecord(payload.data) }),
+    ...('old' in payload && { old: reviveRecord(payload.old) }),
+    ...('changes' in payload && { changes: reviveChanges(payload.changes) })
+  });
+}
@@ -138,3 +138,75 @@ export function getColumnName(modelName: string, fieldName: string): string {
 
   return fieldName;
 }
+
+/**
+ * A scalar field with its database column and Prisma type
+ */
+export interface ScalarFieldInfo {
+  name: string;
+  column: string;
+  type: string;
+  isList: boolean;
+  // Part of the table's primary key
+  isId: boolean;
+}
+
+/**
+ * A table column as the catalog describes it
+ */
+export interface TableColumn {
+  name: string;
+  isList: boolean;
+  isPrimaryKey: boolean;
+}
+
+/**
+ * Gets the scalar and enum fields of a model with their column names and
+ * types. The runtime DMMF doesn't say which fields are lists or form the
+ * primary key, so pass the table's columns to know.
+ */
+export function getScalarFields(
+  modelName: string,
+  columns: TableColumn[] = []
+): ScalarFieldInfo[] {
+  try {
+    const dmmf = (Prisma as any).dmmf as PrismaDMMF;
+
+    if (!dmmf?.datamodel?.models) {
+      return [];
+    }
+
+    let model = dmmf.datamodel.models.find((m) => m.name === modelName);
+
+    if (!model) {
+      // Fallback to case-insensitive search
+      model = dmmf.datamodel.models.find(
+        (m) => m.name.toLowerCase() === modelName.toLowerCase()
+      );
+    }
+
+    if (model?.fields) {
+      return model.fields
+        .filter((f) => f.kind === 'scalar' || f.kind === 'enum')
+        .map((f) => {
+          const column = f.dbName || f.name;
+          const catalog = columns.find((c) => c.name === column);
+          return {
+            name: f.name,
+            column,
+            type: f.type,
+            isList: Boolean(catalog?.isList),
+            isId: Boolean(catalog?.isPrimaryKey)
+          };
+        });
+    }
+  } catch (error) {
+    console.warn(
+      `Could not get fields for ${modelName}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  return [];
+}
@@ -0,0 +1,109 @@
+// src/utils/sql.ts
+import { createHash } from 'crypto';
+import { ConstraintOptions } from '../types/core';
+
+/**
+ * PostgreSQL silently truncates identifiers longer than this many bytes
+ */
+export const MAX_IDENTIFIER_BYTES = 63;
+
+// Length of the hash suffix, including its leading underscore
+const HASH_SUFFIX_LENGTH = 9;
+
+/**
+ * Shortens a name to fit PostgreSQL's identifier limit. Names that fit are
+ * returned unchanged; longer names keep as much of their prefix as fits and
+ * end in a hash of the full name, so different long names stay distinct and
+ * the same name always maps to the same identifier.
+ */
+export function truncateIdentifier(name: string): string {
+  checkIdentifier(name);
+  if (Buffer.byteLength(name) <= MAX_IDENTIFIER_BYTES) return name;
+
+  const hash = createHash('sha256').update(name).digest('hex').slice(0, 8);
+  const budget = MAX_IDENTIFIER_BYTES - HASH_SUFFIX_LENGTH;
+
+  // Cut on a character boundary so multi-byte characters stay intact
+  let prefix = '';
+  for (const char of name) {
+    if (Buffer.byteLength(prefix + char) > budget) break;
+    prefix += char;
+  }
+  return `${prefix}_${hash}`;
+}
+
+function checkIdentifier(name: string): void {
+  if (name.length === 0) {
+    throw new Error('Identifiers cannot be empty');
+  }
+  if (name.includes('\0')) {
+    throw new Error(`Identifier "${name}" contains a NUL character`);
+  }
+}
+
+/**
+ * Quotes a name as an identifier, preserving its case and escaping quotes.
+ * Use it for existing tables, columns and functions, whose long names
+ * PostgreSQL truncates the same way it did when they were created.
+ */
+export function quoteIdent(name: string): string {
+  checkIdentifier(name);
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quotes a possibly schema-qualified name such as `audit.log_change`, one
+ * part at a time
+ */
+export function quoteQualifiedIdent(name: string): string {
+  return name.split('.').map(quoteIdent).join('.');
+}
+
+/**
+ * Quotes a name this library creates objects under, such as a trigger or
+ * function, shortened by truncateIdentifier so long names stay distinct
+ */
+export function generatedIdent(name: string): string {
+  return quoteIdent(truncateIdentifier(name));
+}
+
+/**
+ * Quotes a value as a string literal. Like PostgreSQL's quote_literal, values
+ * with backslashes use the E'' form so they mean the same thing whatever
+ * standard_conforming_strings is set to.
+ */
+export function quoteLiteral(value: string): string {
+  if (value.includes('\0')) {
+    throw new Error('String literals cannot contain NUL characters');
+  }
+  const escaped = value.replace(/'/g, "''");
+  if (!value.includes('\\')) return `'${escaped}'`;
+  return `E'${escaped.replace(/\\/g, '\\\\')}'`;
+}
+
+/**
+ * Wraps a function body in dollar quotes, picking a tag the body doesn't
+ * contain so values in it can't end the quoting early
+ */
+export function dollarQuote(body: string): string {
+  let tag = '$$';
+  for (let i = 1; body.includes(tag); i++) {
+    tag = `$fn${i}$`;
+  }
+  return `${tag}\n${body}\n${tag}`;
+}
+
+/**
+ * The DEFERRABLE clause of a constraint trigger
+ */
+export function deferrableClause(options: ConstraintOptions): string {
+  const { deferrable, initiallyDeferred } = options;
+  if (deferrable === false && initiallyDeferred) {
+    throw new Error(
+      'A constraint trigger that is not deferrable cannot be initially deferred'
+    );
+  }
+
+  if (initiallyDeferred) return 'DEFERRABLE INITIALLY DEFERRED';
+  return deferrable ? 'DEFERRABLE INITIALLY IMMEDIATE' : 'NOT DEFERRABLE';
+}
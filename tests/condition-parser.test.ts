@@ -0,0 +1,193 @@
+// tests/condition-parser.test.ts
+import { describe, test, expect } from 'bun:test';
+import {
+  buildWhereCondition,
+  ConditionBindings,
+  ConditionCompileError,
+  TableColumn
+} from '../src';
+
+// Compiles the source exactly as written, rather than as bun transpiled it
+function compile(
+  source: string,
+  bindings?: ConditionBindings,
+  columns?: TableColumn[]
+): string {
+  return buildWhereCondition(
+    new Function(`return ${source}`)(),
+    'item',
+    bindings,
+    columns
+  );
+}
+
+// The error a source fails to compile with
+function compileError(source: string): ConditionCompileError {
+  try {
+    compile(source);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConditionCompileError);
+    return error as ConditionCompileError;
+  }
+  throw new Error(`Expected ${source} to fail`);
+}
+
+describe('Condition Parser', () => {
+  test('should compile comparisons with mapped operators', () => {
+    expect(compile(`({ NEW }) => NEW.status === 'COMPLETED'`)).toBe(
+      `NEW."status" = 'COMPLETED'`
+    );
+    expect(compile(`({ NEW, OLD }) => OLD.priority < NEW.priority`)).toBe(
+      'OLD."priority" < NEW."priority"'
+    );
+    expect(compile(`({ NEW }) => NEW.dueDate !== null`)).toBe(
+      'NEW."dueDate" IS NOT NULL'
+    );
+  });
+
+  test('should compile minified functions', () => {
+    expect(
+      compile(`({NEW:e,OLD:t})=>e.status!==t.status&&e.priority>=2`)
+    ).toBe('NEW."status" <> OLD."status" AND NEW."priority" >= 2');
+    // Minifiers write true as !0 and undefined as void 0
+    expect(compile(`({NEW:e})=>!0&&e.dueDate!==void 0`)).toBe(
+      'TRUE AND NEW."dueDate" IS NOT NULL'
+    );
+  });
+
+  test('should leave operators inside string literals alone', () => {
+    expect(
+      compile(`({ NEW }) => NEW.name === 'Done!' || NEW.name !== "a != b && c"`)
+    ).toBe(`NEW."name" = 'Done!' OR NEW."name" <> 'a != b && c'`);
+    expect(compile(`({ NEW }) => NEW.name === 'it\\'s'`)).toBe(
+      `NEW."name" = 'it''s'`
+    );
+  });
+
+  test('should keep the grouping of nested parentheses', () => {
+    expect(
+      compile(
+        `({ NEW }) => ((NEW.priority > 1) && (NEW.status === 'PENDING' || (NEW.status === 'IN_PROGRESS')))`
+      )
+    ).toBe(
+      `NEW."priority" > 1 AND (NEW."status" = 'PENDING' OR NEW."status" = 'IN_PROGRESS')`
+    );
+    expect(
+      compile(`({ NEW }) => (NEW.priority > 1 && NEW.priority < 5) || NEW.priority === 0`)
+    ).toBe('NEW."priority" > 1 AND NEW."priority" < 5 OR NEW."priority" = 0');
+  });
+
+  test('should accept destructured, renamed and whole-record parameters', () => {
+    const expected = 'NEW."priority" > OLD."priority"';
+
+    expect(compile(`({ NEW, OLD }) => NEW.priority > OLD.priority`)).toBe(
+      expected
+    );
+    expect(
+      compile(`({ NEW: next, OLD: prev }) => next.priority > prev.priority`)
+    ).toBe(expected);
+    expect(
+      compile(`(records) => records.NEW.priority > records['OLD'].priority`)
+    ).toBe(expected);
+    expect(
+      compile(`function ({ NEW, OLD }) { return NEW.priority > OLD.priority; }`)
+    ).toBe(expected);
+  });
+
+  test('should follow JavaScript truthiness for !, && and ||', () => {
+    expect(compile(`({ OLD }) => !OLD.name`)).toBe(
+      `COALESCE(OLD."name", '') = ''`
+    );
+    expect(compile(`({ OLD }) => !OLD.priority`)).toBe(
+      'COALESCE(OLD."priority", 0) = 0'
+    );
+    expect(compile(`({ OLD }) => !OLD.dueDate`)).toBe('OLD."dueDate" IS NULL');
+    expect(compile(`({ NEW }) => NEW.description && NEW.priority > 1`)).toBe(
+      `COALESCE(NEW."description", '') <> '' AND NEW."priority" > 1`
+    );
+    expect(compile(`({ NEW }) => !(NEW.priority > 1)`)).toBe(
+      'NOT NEW."priority" > 1'
+    );
+  });
+
+  test('should type array fields from the table columns', () => {
+    const columns: TableColumn[] = [
+      { name: 'id', isList: false, isPrimaryKey: true },
+      { name: 'tags', isList: true, isPrimaryKey: false }
+    ];
+
+    expect(
+      compile(`({ NEW }) => NEW.tags.includes('urgent')`, undefined, columns)
+    ).toBe(`NEW."tags" @> ARRAY['urgent']`);
+    expect(compile(`({ NEW }) => NEW.tags.length > 2`, undefined, columns)).toBe(
+      'cardinality(NEW."tags") > 2'
+    );
+    expect(compile(`({ NEW }) => NEW.name.includes('50%')`, undefined, columns)).toBe(
+      `NEW."name" LIKE E'%50\\\\%%'`
+    );
+    expect(
+      compile(`({ NEW }) => ['PENDING', 'COMPLETED'].includes(NEW.status)`)
+    ).toBe(`NEW."status" IN ('PENDING', 'COMPLETED')`);
+  });
+
+  test('should inline bindings as escaped literals', () => {
+    expect(
+      compile(`({ NEW }) => NEW.priority > limit && NEW.name !== name`, {
+        limit: 3,
+        name: "O'Brien"
+      })
+    ).toBe(`NEW."priority" > 3 AND NEW."name" <> 'O''Brien'`);
+  });
+
+  test('should decode escape sequences in string literals', () => {
+    expect(
+      compile(String.raw`({ NEW }) => NEW.name === 'caf\xe9 é\u{1F600}\'\q'`)
+    ).toBe(`NEW."name" = 'café é😀''q'`);
+    expect(compile(String.raw`({ NEW }) => NEW.name === 'a\tb'`)).toBe(
+      `NEW."name" = 'a\tb'`
+    );
+
+    const source = String.raw`({ NEW }) => NEW.name === 'a\0'`;
+    const error = compileError(source);
+    expect(error.message).toContain('Invalid or unsupported escape sequence');
+    expect(error.position).toBe(source.indexOf('\\'));
+    expect(
+      compileError(String.raw`({ NEW }) => NEW.name === '\101'`).message
+    ).toContain('Invalid or unsupported escape sequence');
+  });
+
+  test('should point at unsupported syntax', () => {
+    const source = `({ NEW }) => NEW.priority + 1 > 2`;
+    const error = compileError(source);
+
+    expect(error.message).toContain("Unsupported syntax '+'");
+    expect(error.source).toBe(source);
+    expect(error.position).toBe(source.indexOf('+'));
+
+    expect(
+      compileError(`({ NEW }) => { if (NEW.priority > 1) return true; }`)
+        .message
+    ).toContain('Only a single return statement is supported');
+    expect(
+      compileError(`({ NEW }) => NEW.name.padStart(2) === 'x'`).message
+    ).toContain("Unsupported method 'padStart()'");
+    expect(compileError(`({ NEW }) => \`\${NEW.name}\` === 'x'`).message).toContain(
+      'Template literal interpolation is not supported'
+    );
+  });
+
+  test('should point at unknown identifiers', () => {
+    const source = `({ NEW }) => NEW.priority > limit`;
+    const error = compileError(source);
+
+    expect(error.message).toContain("Unknown identifier 'limit'");
+    expect(error.position).toBe(source.indexOf('limit'));
+
+    expect(compileError(`({ NEW, MID }) => NEW.priority > 1`).message).toContain(
+      "Unknown record 'MID', expected NEW or OLD"
+    );
+    expect(compileError(`(r) => r.CURRENT.priority > 1`).message).toContain(
+      "Unknown record 'CURRENT', expected NEW or OLD"
+    );
+  });
+});
@@ -0,0 +1,140 @@
+// tests/conditions.test.ts
+import { describe, test, expect } from 'bun:test';
+import type { PrismaClient } from '@prisma/client';
+import { TriggerOperation } from '../src';
+import { Condition, ConditionBuilder } from '../src/core/conditions';
+
+function builder(
+  events?: TriggerOperation[]
+): ConditionBuilder<PrismaClient, 'item'> {
+  return new ConditionBuilder<PrismaClient, 'item'>('item', events);
+}
+
+// The SQL of a condition, as a plain string to compare with
+function sqlOf(condition: Condition): string {
+  return condition.toSQL();
+}
+
+describe('Condition Builder', () => {
+  test('should render comparison values as SQL literals', () => {
+    const c = builder();
+
+    expect(sqlOf(c.NEW('priority').eq(3))).toBe('NEW."priority" = 3');
+    expect(sqlOf(c.NEW('name').eq("it's"))).toBe(`NEW."name" = 'it''s'`);
+    expect(
+      sqlOf(c.NEW('dueDate').lt(new Date('2024-01-02T03:04:05.000Z')))
+    ).toBe(`NEW."dueDate" < '2024-01-02T03:04:05.000Z'`);
+    expect(sqlOf(c.NEW('priority').in([1, 2]))).toBe(
+      'NEW."priority" IN (1, 2)'
+    );
+    expect(sqlOf(c.NEW('priority').between(1, c.OLD('priority')))).toBe(
+      'NEW."priority" BETWEEN 1 AND OLD."priority"'
+    );
+  });
+
+  test('should refuse values that have no SQL literal', () => {
+    const c = builder();
+
+    expect(() => c.NEW('priority').eq(Infinity).toSQL()).toThrow(
+      'finite number'
+    );
+    expect(() => c.NEW('priority').in([1, NaN]).toSQL()).toThrow(
+      'finite number'
+    );
+    expect(() => c.NEW('dueDate').gt(new Date('nope')).toSQL()).toThrow(
+      'invalid Date'
+    );
+  });
+
+  test('should build pattern and list operators', () => {
+    const c = builder();
+
+    expect(sqlOf(c.NEW('name').ilike('%urgent%'))).toBe(
+      `NEW."name" ILIKE '%urgent%'`
+    );
+    expect(sqlOf(c.NEW('name').notLike('test%'))).toBe(
+      `NEW."name" NOT LIKE 'test%'`
+    );
+    expect(sqlOf(c.NEW('priority').notIn([1, 2]))).toBe(
+      'NEW."priority" NOT IN (1, 2)'
+    );
+    expect(sqlOf(c.NEW('priority').notIn([]))).toBe('TRUE');
+    expect(sqlOf(c.not(c.NEW('priority').gt(1)))).toBe(
+      'NOT (NEW."priority" > 1)'
+    );
+  });
+
+  test('should escape LIKE wildcards in startsWith and endsWith', () => {
+    const c = builder();
+
+    expect(sqlOf(c.NEW('name').startsWith('PRO_1%'))).toBe(
+      String.raw`NEW."name" LIKE E'PRO\\_1\\%%'`
+    );
+    expect(sqlOf(c.NEW('name').endsWith(String.raw`a\b`))).toBe(
+      String.raw`NEW."name" LIKE E'%a\\\\b'`
+    );
+  });
+
+  test('should match regular expressions with ~ or ~*', () => {
+    const c = builder();
+
+    expect(sqlOf(c.NEW('name').matches('^[A-Z]+$'))).toBe(
+      `NEW."name" ~ '^[A-Z]+$'`
+    );
+    expect(sqlOf(c.NEW('name').matches(/^urgent/))).toBe(
+      `NEW."name" ~ '^urgent'`
+    );
+    expect(sqlOf(c.NEW('name').matches(/^urgent/i))).toBe(
+      `NEW."name" ~* '^urgent'`
+    );
+    expect(() => c.NEW('name').matches(/urgent/g)).toThrow(
+      'Unsupported RegExp flags for matches(): g'
+    );
+  });
+
+  test('should build JSON operators', () => {
+    const c = builder();
+
+    expect(sqlOf(c.NEW('metadata').path('a', 'b').eq('x'))).toBe(
+      `(NEW."metadata" #>> ARRAY['a', 'b']) = 'x'`
+    );
+    expect(sqlOf(c.NEW('metadata').path('score').gt(2))).toBe(
+      `(NEW."metadata" #>> ARRAY['score'])::numeric > 2`
+    );
+    expect(sqlOf(c.NEW('metadata').path('done').eq(true))).toBe(
+      `(NEW."metadata" #>> ARRAY['done'])::boolean = TRUE`
+    );
+    expect(sqlOf(c.NEW('metadata').path('note').isNull())).toBe(
+      `(NEW."metadata" #>> ARRAY['note']) IS NULL`
+    );
+    expect(sqlOf(c.NEW('metadata').hasKey("it's"))).toBe(
+      `NEW."metadata" ? 'it''s'`
+    );
+    expect(sqlOf(c.NEW('metadata').hasAnyKey(['a', 'b"']))).toBe(
+      String.raw`NEW."metadata" ?| E'{"a","b\\""}'`
+    );
+    expect(sqlOf(c.NEW('metadata').hasAllKeys(['a', 'b']))).toBe(
+      `NEW."metadata" ?& '{"a","b"}'`
+    );
+    expect(
+      sqlOf(c.NEW('metadata').jsonContains({ owner: "O'Brien", tags: [1] }))
+    ).toBe(`NEW."metadata" @> '{"owner":"O''Brien","tags":[1]}'::jsonb`);
+  });
+
+  test('should compare transitions to null with IS NULL', () => {
+    const c = builder(['UPDATE']);
+
+    expect(sqlOf(c.changedTo('dueDate', null))).toBe(
+      'OLD."dueDate" IS DISTINCT FROM NEW."dueDate" AND NEW."dueDate" IS NULL'
+    );
+    expect(sqlOf(c.changedFrom('dueDate', null))).toBe(
+      'OLD."dueDate" IS NULL AND OLD."dueDate" IS DISTINCT FROM NEW."dueDate"'
+    );
+    expect(sqlOf(c.transitioned('assigneeId', null, 'u1'))).toBe(
+      `OLD."assigneeId" IS NULL AND NEW."assigneeId" = 'u1'`
+    );
+    expect(sqlOf(builder(['INSERT']).changedTo('dueDate', null))).toBe(
+      'NEW."dueDate" IS NULL'
+    );
+  });
+});
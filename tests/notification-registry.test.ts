@@ -2,7 +2,14 @@
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
 import { prisma, resetNotifications, pgClient, getDatabaseUrl, ensureDatabase } from './setup';
 import { waitForCondition } from './utils';
-import { TriggerEvent, Registry, createTriggers } from '../src';
+import {
+  TriggerEvent,
+  Registry,
+  createTriggers,
+  ConnectionManager
+} from '../src';
+import { truncateIdentifier } from '../src/utils/sql';
+import { Prisma } from '@prisma/client';
 
 describe('Notification Registry and Unified Subscription', () => {
   // Record received notifications for testing with unique channel names per test
@@ -23,6 +30,7 @@ describe('Notification Registry and Unified Subscription', () => {
     await prisma!.item.deleteMany({});
     await prisma!.list.deleteMany({});
     await prisma!.uwU.deleteMany({});
+    await prisma!.measurement.deleteMany({});
 
     // Clear our test notification recorder
     Object.keys(receivedNotifications).forEach((key) => {
@@ -30,7 +38,7 @@ describe('Notification Registry and Unified Subscription', () => {
     });
 
     // Clean up any existing triggers before starting the test
-    const tables = ['Item', 'List', 'uwu_table', 'User'];
+    const tables = ['Item', 'List', 'uwu_table', 'User', 'Measurement'];
     const allPossibleTriggers = [
       'item_registry_trigger',
       'list_registry_trigger',
@@ -41,7 +49,27 @@ describe('Notification Registry and Unified Subscription', () => {
       'item_completed_trigger',
       'trigger_one_trigger',
       'trigger_two_trigger',
-      'trigger_three_trigger'
+      'trigger_three_trigger',
+      'item_audit_trigger',
+      'item_large_trigger',
+      'item_outbox_trigger',
+      'item_reconnect_trigger',
+      'item_dead_letter_trigger',
+      'item_replay_trigger',
+      'item_ordered_trigger',
+      'item_iterated_trigger',
+      'item_by_operation_trigger',
+      'item_revived_trigger',
+      'measurement_revived_trigger',
+      'uwu_mapped_trigger',
+      'uwu_selected_trigger',
+      'uwu_changed_trigger',
+      'uwu_shared_mood',
+      'uwu_shared_what',
+      'item_completed_trigger',
+      'Item_Quoted_trigger',
+      'item_batch_trigger',
+      'item_twice_trigger'
     ];
 
     for (const triggerName of allPossibleTriggers) {
@@ -412,6 +440,57 @@ describe('Notification Registry and Unified Subscription', () => {
     expect(receivedNotifications[channelName].length).toBe(0);
   });
 
+  test('a handler subscribed twice should be unsubscribed once at a time', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    registry = triggerManager.registry().define('item_twice', {
+      model: 'item',
+      events: ['INSERT'],
+      timing: 'AFTER',
+      notify: `item_twice_${testId}`
+    });
+
+    const names: string[] = [];
+    const handler = (event: { data: { name: string } }) => {
+      names.push(event.data.name);
+    };
+    const unsubscribeFirst = registry!.on('item_twice', handler, { id: 'a' });
+    registry!.on('item_twice', handler, { id: 'b' });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Twice',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Twice User'
+          }
+        }
+      }
+    });
+
+    await prisma!.item.create({
+      data: { name: 'First', status: 'PENDING', listId: list.id }
+    });
+    await waitForCondition(() => names.length >= 2, 5000);
+
+    unsubscribeFirst();
+    await prisma!.item.create({
+      data: { name: 'Second', status: 'PENDING', listId: list.id }
+    });
+    await waitForCondition(() => names.length >= 3, 5000);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(names).toEqual(['First', 'First', 'Second']);
+  });
+
   test('should handle custom channels and triggers', async () => {
     // Create trigger manager
     triggerManager = createTriggers<NonNullable<typeof prisma>>(
@@ -696,4 +775,1155 @@ describe('Notification Registry and Unified Subscription', () => {
     expect(triggerIds).toContain('trigger_three');
     expect(triggerIds.length).toBe(3);
   });
+
+  test('UPDATE and DELETE events should carry the previous row', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `item_audit_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('item_audit', {
+      model: 'item',
+      events: ['INSERT', 'UPDATE', 'DELETE'],
+      timing: 'AFTER',
+      notify: channelName
+    });
+
+    registry!.on('item_audit', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Audit',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Audit User'
+          }
+        }
+      }
+    });
+
+    const item = await prisma!.item.create({
+      data: { name: 'Audited Item', status: 'PENDING', listId: list.id }
+    });
+    await prisma!.item.update({
+      where: { id: item.id },
+      data: { status: 'COMPLETED' }
+    });
+    await prisma!.item.delete({ where: { id: item.id } });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 3,
+      5000
+    );
+
+    const [inserted, updated, deleted] = receivedNotifications[channelName];
+
+    expect(inserted.operation).toBe('INSERT');
+    expect(inserted.old).toBeUndefined();
+
+    expect(updated.operation).toBe('UPDATE');
+    expect(updated.old.status).toBe('PENDING');
+    expect(updated.data.status).toBe('COMPLETED');
+    expect(updated.changes.status).toEqual({
+      from: 'PENDING',
+      to: 'COMPLETED'
+    });
+    expect(updated.changes.name).toBeUndefined();
+
+    expect(deleted.operation).toBe('DELETE');
+    expect(deleted.old.id).toBe(item.id);
+    expect(deleted.data.id).toBe(item.id);
+  });
+
+  test('statement-level triggers should batch every changed row', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `item_batch_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('item_batch', {
+      model: 'item',
+      events: ['UPDATE'],
+      timing: 'AFTER',
+      forEach: 'STATEMENT',
+      notify: channelName
+    });
+
+    registry!.on('item_batch', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Batches',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Batch User'
+          }
+        }
+      }
+    });
+    await prisma!.item.createMany({
+      data: ['A', 'B', 'C'].map((name) => ({
+        name,
+        status: 'PENDING' as const,
+        listId: list.id
+      }))
+    });
+
+    await prisma!.item.updateMany({
+      where: { listId: list.id },
+      data: { status: 'COMPLETED' }
+    });
+    // Matches no rows, so nothing is sent
+    await prisma!.item.updateMany({
+      where: { name: 'missing' },
+      data: { status: 'COMPLETED' }
+    });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 1,
+      5000
+    );
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(receivedNotifications[channelName].length).toBe(1);
+
+    const [batch] = receivedNotifications[channelName];
+    expect(batch.operation).toBe('UPDATE');
+    expect(batch.rows.length).toBe(3);
+    for (const row of batch.rows) {
+      expect(row.old.id).toBe(row.new.id);
+      expect(row.old.status).toBe('PENDING');
+      expect(row.new.status).toBe('COMPLETED');
+      expect(row.new.updatedAt).toBeInstanceOf(Date);
+    }
+  });
+
+  test('should deliver payloads larger than the pg_notify limit', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `item_large_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('item_large', {
+      model: 'item',
+      events: ['INSERT'],
+      timing: 'AFTER',
+      notify: channelName
+    });
+
+    registry!.on('item_large', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Large Payloads',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Large Payload User'
+          }
+        }
+      }
+    });
+
+    // Well past the ~8000 byte NOTIFY limit
+    const blob = 'x'.repeat(20000);
+    const item = await prisma!.item.create({
+      data: {
+        name: 'Large Item',
+        status: 'PENDING',
+        listId: list.id,
+        metadata: { blob }
+      }
+    });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 1,
+      5000
+    );
+
+    const [event] = receivedNotifications[channelName];
+    expect(event.operation).toBe('INSERT');
+    expect(event.data.id).toBe(item.id);
+    expect(event.data.metadata.blob).toBe(blob);
+  });
+
+  test('outbox delivery should deliver events fired before listening', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `item_outbox_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('item_outbox', {
+      model: 'item',
+      events: ['INSERT'],
+      timing: 'AFTER',
+      notify: channelName,
+      delivery: 'outbox'
+    });
+
+    let failuresLeft = 1;
+    let lockedRows: unknown = null;
+    registry!.on('item_outbox', async (event) => {
+      // The first attempt fails, so the event must be redelivered
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        // Handlers run after the claim commits, so the row isn't locked
+        lockedRows = await pgClient!`
+          SELECT id FROM pg_typesafe_triggers_outbox
+          WHERE channel = ${channelName}
+          FOR UPDATE NOWAIT
+        `.then((rows) => rows.length, (error) => error);
+        throw new Error('Handler failed');
+      }
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Outbox',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Outbox User'
+          }
+        }
+      }
+    });
+
+    // Nobody is listening yet, so this event only exists in the outbox
+    const first = await prisma!.item.create({
+      data: { name: 'Queued Item', status: 'PENDING', listId: list.id }
+    });
+
+    await registry!.listen();
+
+    // The failed event waits for its retry timer while newer events go ahead
+    const second = await prisma!.item.create({
+      data: { name: 'Live Item', status: 'PENDING', listId: list.id }
+    });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 2,
+      5000
+    );
+
+    const ids = receivedNotifications[channelName].map((e) => e.data.id);
+    expect(ids).toEqual([second.id, first.id]);
+    expect(lockedRows).toBe(1);
+  });
+
+  test('the listener connection should receive notifications', async () => {
+    const connectionManager = new ConnectionManager({ url: getDatabaseUrl() });
+    const channelName = `listener_${testId}`;
+    const payloads: string[] = [];
+
+    try {
+      await connectionManager.subscribe(channelName, (payload) => {
+        payloads.push(payload);
+      });
+
+      await pgClient!`SELECT pg_notify(${channelName}, ${'{"ping":1}'})`;
+      await waitForCondition(() => payloads.length >= 1, 5000);
+
+      expect(JSON.parse(payloads[0])).toEqual({ ping: 1 });
+    } finally {
+      await connectionManager.dispose();
+    }
+  });
+
+  test('should re-listen and catch up after the listener connection drops', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl(),
+      { reconnect: { initialDelay: 50 } }
+    );
+
+    const channelName = `item_reconnect_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('item_reconnect', {
+      model: 'item',
+      events: ['INSERT'],
+      timing: 'AFTER',
+      notify: channelName,
+      delivery: 'outbox'
+    });
+
+    registry!.on('item_reconnect', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    let reconnected = false;
+    triggerManager.on('reconnected', ({ channels }) => {
+      reconnected = channels.includes(channelName);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Reconnect',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Reconnect User'
+          }
+        }
+      }
+    });
+
+    // Kill the listening backend and insert while it is gone
+    await prisma!.$executeRawUnsafe(
+      `SELECT pg_terminate_backend(pid) FROM pg_stat_activity
+       WHERE query ILIKE 'LISTEN "${channelName}"%'`
+    );
+    const item = await prisma!.item.create({
+      data: { name: 'Missed Item', status: 'PENDING', listId: list.id }
+    });
+
+    await waitForCondition(() => reconnected, 5000);
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 1,
+      5000
+    );
+
+    expect(receivedNotifications[channelName][0].data.id).toBe(item.id);
+  });
+
+  test('should retry failing handlers and replay dead letters', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `item_dead_letter_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager
+      .registry({ retry: { attempts: 3 }, deadLetter: 'table' })
+      .define('item_dead_letter', {
+        model: 'item',
+        events: ['INSERT'],
+        timing: 'AFTER',
+        notify: channelName
+      });
+
+    let attempts = 0;
+    let healthy = false;
+    registry!.on('item_dead_letter', (event) => {
+      attempts++;
+      if (!healthy) throw new Error('Downstream unavailable');
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Dead Letters',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Dead Letter User'
+          }
+        }
+      }
+    });
+
+    const item = await prisma!.item.create({
+      data: { name: 'Failing Item', status: 'PENDING', listId: list.id }
+    });
+
+    await waitForCondition(() => attempts >= 3, 5000);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(attempts).toBe(3);
+
+    healthy = true;
+    const result = await registry!.replayDeadLetters('item_dead_letter');
+
+    expect(result.replayed).toBeGreaterThanOrEqual(1);
+    expect(
+      receivedNotifications[channelName].some((e) => e.data.id === item.id)
+    ).toBe(true);
+  });
+
+  test('replaying dead letters should only rerun the handlers that failed', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `item_replay_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager
+      .registry({ deadLetter: 'table' })
+      .define('item_replay', {
+        model: 'item',
+        events: ['INSERT'],
+        timing: 'AFTER',
+        notify: channelName
+      });
+
+    let audited = 0;
+    let healthy = false;
+    registry!.on(
+      'item_replay',
+      () => {
+        audited++;
+      },
+      { id: 'audit' }
+    );
+    registry!.on(
+      'item_replay',
+      (event) => {
+        if (!healthy) throw new Error('Mail server unavailable');
+        receivedNotifications[channelName].push(event);
+      },
+      { id: 'mailer' }
+    );
+
+    await registry!.setup();
+    await pgClient!`
+      DELETE FROM pg_typesafe_triggers_dead_letters
+      WHERE trigger_name = 'item_replay_trigger'
+    `;
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Replays',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Replay User'
+          }
+        }
+      }
+    });
+    const item = await prisma!.item.create({
+      data: { name: 'Unmailed Item', status: 'PENDING', listId: list.id }
+    });
+
+    // Wait for the failed event to be stored
+    let letters: any[] = [];
+    for (let i = 0; i < 50 && letters.length === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      letters = await pgClient!`
+        SELECT handlers FROM pg_typesafe_triggers_dead_letters
+        WHERE trigger_name = 'item_replay_trigger'
+      `;
+    }
+
+    expect(letters.map((letter) => letter.handlers)).toEqual([['mailer']]);
+    expect(audited).toBe(1);
+
+    healthy = true;
+    const result = await registry!.replayDeadLetters('item_replay');
+
+    expect(result).toEqual({ replayed: 1, failed: 0 });
+    expect(receivedNotifications[channelName].map((e) => e.data.id)).toEqual([
+      item.id
+    ]);
+    // The audit handler succeeded the first time, so it isn't run again
+    expect(audited).toBe(1);
+  });
+
+  test('partitioned handlers should process events per key in order', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `item_ordered_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('item_ordered', {
+      model: 'item',
+      events: ['UPDATE'],
+      timing: 'AFTER',
+      notify: channelName
+    });
+
+    registry!.on(
+      'item_ordered',
+      async (event) => {
+        // Earlier events take longer, so unordered handling would swap them
+        const delay = event.data.name === 'Step 1' ? 300 : 0;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        receivedNotifications[channelName].push(event);
+      },
+      { concurrency: { partitionBy: (event) => event.data.id } }
+    );
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Ordering',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Ordering User'
+          }
+        }
+      }
+    });
+
+    const item = await prisma!.item.create({
+      data: { name: 'Step 0', status: 'PENDING', listId: list.id }
+    });
+
+    for (const name of ['Step 1', 'Step 2', 'Step 3']) {
+      await prisma!.item.update({ where: { id: item.id }, data: { name } });
+    }
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 3,
+      5000
+    );
+
+    expect(
+      receivedNotifications[channelName].map((e) => e.data.name)
+    ).toEqual(['Step 1', 'Step 2', 'Step 3']);
+  });
+
+  test('events() should yield trigger events in a for await loop', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    registry = triggerManager.registry().define('item_iterated', {
+      model: 'item',
+      events: ['INSERT'],
+      timing: 'AFTER',
+      notify: `item_iterated_${testId}`
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Iteration',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Iteration User'
+          }
+        }
+      }
+    });
+
+    const iterator = registry!.events('item_iterated', { bufferSize: 1 });
+
+    const created: string[] = [];
+    for (const name of ['First', 'Second']) {
+      const item = await prisma!.item.create({
+        data: { name, status: 'PENDING', listId: list.id }
+      });
+      created.push(item.id);
+    }
+
+    const received: string[] = [];
+    for await (const event of iterator) {
+      received.push(event.data.id);
+      if (received.length === 2) break;
+    }
+
+    expect(received).toEqual(created);
+  });
+
+  test('events() should answer concurrent next() calls in order', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    registry = triggerManager.registry().define('item_iterated', {
+      model: 'item',
+      events: ['INSERT'],
+      timing: 'AFTER',
+      notify: `item_iterated_${testId}`
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Waiting Consumers',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Waiting User'
+          }
+        }
+      }
+    });
+
+    // Both calls wait before any event has arrived
+    const iterator = registry!.events('item_iterated');
+    const first = iterator.next();
+    const second = iterator.next();
+
+    const created: string[] = [];
+    for (const name of ['First', 'Second']) {
+      const item = await prisma!.item.create({
+        data: { name, status: 'PENDING', listId: list.id }
+      });
+      created.push(item.id);
+    }
+
+    const results = await Promise.all([first, second]);
+    await iterator.return!();
+
+    expect(results.map((result) => result.value?.data.id)).toEqual(created);
+  });
+
+  test('on() with an operation should only receive that operation', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `item_by_operation_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('item_by_operation', {
+      model: 'item',
+      events: ['INSERT', 'UPDATE'],
+      timing: 'AFTER',
+      notify: channelName
+    });
+
+    const updates: string[] = [];
+    registry!.on('item_by_operation', 'UPDATE', (event) => {
+      updates.push(event.old.name);
+    });
+    registry!.on('item_by_operation', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Operation Filters',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Operation Filter User'
+          }
+        }
+      }
+    });
+
+    const item = await prisma!.item.create({
+      data: { name: 'Before', status: 'PENDING', listId: list.id }
+    });
+    await prisma!.item.update({
+      where: { id: item.id },
+      data: { name: 'After' }
+    });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 2,
+      5000
+    );
+
+    expect(updates).toEqual(['Before']);
+  });
+
+  test('events should carry revived Date values', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `item_revived_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('item_revived', {
+      model: 'item',
+      events: ['UPDATE'],
+      timing: 'AFTER',
+      notify: channelName
+    });
+
+    registry!.on('item_revived', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Revived Types',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Revived Types User'
+          }
+        }
+      }
+    });
+
+    const item = await prisma!.item.create({
+      data: { name: 'Dated Item', status: 'PENDING', listId: list.id }
+    });
+    const dueDate = new Date('2030-01-02T03:04:05.678Z');
+    await prisma!.item.update({ where: { id: item.id }, data: { dueDate } });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 1,
+      5000
+    );
+
+    const [event] = receivedNotifications[channelName];
+    expect(event.timestamp).toBeInstanceOf(Date);
+    expect(event.data.createdAt).toBeInstanceOf(Date);
+    expect(event.data.createdAt.getTime()).toBe(item.createdAt.getTime());
+    expect(event.data.dueDate.getTime()).toBe(dueDate.getTime());
+    expect(event.old.dueDate).toBeNull();
+    expect(event.changes.dueDate.to.getTime()).toBe(dueDate.getTime());
+  });
+
+  test('events should carry revived BigInt and Decimal lists', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `measurement_revived_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('measurement_revived', {
+      model: 'measurement',
+      events: ['INSERT'],
+      timing: 'AFTER',
+      notify: channelName
+    });
+
+    registry!.on('measurement_revived', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    // Beyond what a JSON number can hold exactly
+    const measurement = await prisma!.measurement.create({
+      data: {
+        total: 9007199254740993n,
+        samples: [9007199254740993n, -1n],
+        prices: ['0.1', '12345678901234567890.123456789']
+      }
+    });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 1,
+      5000
+    );
+
+    const [event] = receivedNotifications[channelName];
+    expect(event.data.id).toBe(measurement.id);
+    expect(event.data.total).toBe(9007199254740993n);
+    expect(event.data.samples).toEqual([9007199254740993n, -1n]);
+    expect(event.data.prices.map(String)).toEqual([
+      '0.1',
+      '12345678901234567890.123456789'
+    ]);
+    expect(event.data.prices[0]).toBeInstanceOf(Prisma.Decimal);
+  });
+
+  test('conditions should use mapped column names', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `uwu_mapped_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('uwu_mapped', {
+      model: 'uwU',
+      events: ['UPDATE'],
+      timing: 'AFTER',
+      notify: channelName,
+      when: (c) => c.and(c.changed('mood'), c.NEW('mood').eq('happy'))
+    });
+
+    registry!.on('uwu_mapped', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const uwu = await prisma!.uwU.create({ data: { what: 'Mapped UwU' } });
+
+    // Neither update should match: the first doesn't touch the mood
+    await prisma!.uwU.update({
+      where: { id: uwu.id },
+      data: { what: 'Still Mapped' }
+    });
+    await prisma!.uwU.update({
+      where: { id: uwu.id },
+      data: { mood: 'sleepy' }
+    });
+    await prisma!.uwU.update({
+      where: { id: uwu.id },
+      data: { mood: 'happy' }
+    });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 1,
+      5000
+    );
+
+    expect(receivedNotifications[channelName]).toHaveLength(1);
+    const [event] = receivedNotifications[channelName];
+    expect(event.data.mood).toBe('happy');
+    expect(event.old.mood).toBe('sleepy');
+  });
+
+  test('select should send only the selected fields', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `uwu_selected_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    // mood is stored in the uwu_mood column
+    registry = triggerManager.registry().define('uwu_selected', {
+      model: 'uwU',
+      events: ['UPDATE'],
+      timing: 'AFTER',
+      notify: channelName,
+      select: ['id', 'mood']
+    });
+
+    registry!.on('uwu_selected', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const uwu = await prisma!.uwU.create({
+      data: { what: 'Projected UwU', mood: 'sleepy' }
+    });
+    await prisma!.uwU.update({
+      where: { id: uwu.id },
+      data: { what: 'Still Projected', mood: 'happy' }
+    });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 1,
+      5000
+    );
+
+    const [event] = receivedNotifications[channelName];
+    expect(event.data).toEqual({ id: uwu.id, mood: 'happy' });
+    expect(event.old).toEqual({ id: uwu.id, mood: 'sleepy' });
+    // what changed as well, but isn't selected
+    expect(Object.keys(event.changes ?? {})).toEqual(['mood']);
+  });
+
+  test('triggers sharing a channel should keep their own functions', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `uwu_shared_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    const byMood = triggerManager
+      .for('uwU')
+      .withName('uwu_shared_mood')
+      .after()
+      .on('UPDATE')
+      .select('id', 'mood')
+      .notify(channelName)
+      .build();
+    const byWhat = triggerManager
+      .for('uwU')
+      .withName('uwu_shared_what')
+      .after()
+      .on('UPDATE')
+      .select('id', 'what')
+      .notify(channelName)
+      .build();
+
+    // Listening through one handle receives both triggers' notifications
+    byWhat.subscribe((event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    try {
+      await byMood.setup();
+      await byWhat.setup();
+      await byWhat.listen();
+
+      const uwu = await prisma!.uwU.create({
+        data: { what: 'Shared', mood: 'calm' }
+      });
+      await prisma!.uwU.update({
+        where: { id: uwu.id },
+        data: { what: 'Shared Again', mood: 'happy' }
+      });
+
+      await waitForCondition(
+        () => receivedNotifications[channelName].length >= 2,
+        5000
+      );
+      expect(
+        receivedNotifications[channelName]
+          .map((event) => Object.keys(event.data).sort().join())
+          .sort()
+      ).toEqual(['id,mood', 'id,what']);
+
+      // Dropping one trigger leaves the other's function in place
+      await byMood.drop();
+      receivedNotifications[channelName] = [];
+      await prisma!.uwU.update({
+        where: { id: uwu.id },
+        data: { what: 'Only What' }
+      });
+
+      await waitForCondition(
+        () => receivedNotifications[channelName].length >= 1,
+        5000
+      );
+      expect(receivedNotifications[channelName].map((e) => e.data)).toEqual([
+        { id: uwu.id, what: 'Only What' }
+      ]);
+    } finally {
+      await byMood.drop();
+      await byWhat.drop();
+    }
+  });
+
+  test('onlyIfChanged should skip updates that change nothing', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `uwu_changed_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('uwu_changed', {
+      model: 'uwU',
+      events: ['UPDATE'],
+      timing: 'AFTER',
+      notify: channelName,
+      onlyIfChanged: true
+    });
+
+    registry!.on('uwu_changed', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const uwu = await prisma!.uwU.create({
+      data: { what: 'Unchanged UwU', mood: 'calm' }
+    });
+
+    // Writes the values the row already has
+    await prisma!.uwU.update({
+      where: { id: uwu.id },
+      data: { what: 'Unchanged UwU', mood: 'calm' }
+    });
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect(receivedNotifications[channelName]).toHaveLength(0);
+
+    await prisma!.uwU.update({
+      where: { id: uwu.id },
+      data: { mood: 'excited' }
+    });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 1,
+      5000
+    );
+
+    expect(receivedNotifications[channelName]).toHaveLength(1);
+    const [event] = receivedNotifications[channelName];
+    expect(event.changes).toEqual({ mood: { from: 'calm', to: 'excited' } });
+  });
+
+  test('transition conditions should guard INSERT in the function', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    const channelName = `item_completed_${testId}`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('item_completed', {
+      model: 'item',
+      events: ['INSERT', 'UPDATE'],
+      timing: 'AFTER',
+      notify: channelName,
+      when: (c) => c.changedTo('status', 'COMPLETED')
+    });
+
+    registry!.on('item_completed', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Transitions',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Transitions User'
+          }
+        }
+      }
+    });
+
+    // Inserted as COMPLETED: matches
+    await prisma!.item.create({
+      data: { name: 'Done on Insert', status: 'COMPLETED', listId: list.id }
+    });
+
+    // Inserted as PENDING, then completed: only the update matches
+    const item = await prisma!.item.create({
+      data: { name: 'Done Later', status: 'PENDING', listId: list.id }
+    });
+    await prisma!.item.update({
+      where: { id: item.id },
+      data: { status: 'COMPLETED' }
+    });
+
+    // Already COMPLETED, so renaming doesn't match
+    await prisma!.item.update({
+      where: { id: item.id },
+      data: { name: 'Renamed' }
+    });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 2,
+      5000
+    );
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    expect(
+      receivedNotifications[channelName].map((event: any) => event.operation)
+    ).toEqual(['INSERT', 'UPDATE']);
+  });
+
+  test('names should keep their case, quotes and length', async () => {
+    triggerManager = createTriggers<NonNullable<typeof prisma>>(
+      getDatabaseUrl()
+    );
+
+    // A quote in the channel and a function name over the 63-byte limit
+    const channelName = `Item's Events ${testId}`;
+    const functionName = `Item_Quoted_${'x'.repeat(60)}_func`;
+    receivedNotifications[channelName] = [];
+
+    registry = triggerManager.registry().define('Item_Quoted', {
+      model: 'item',
+      events: ['INSERT'],
+      timing: 'AFTER',
+      notify: channelName,
+      functionName
+    });
+
+    registry!.on('Item_Quoted', (event) => {
+      receivedNotifications[channelName].push(event);
+    });
+
+    await registry!.setup();
+    await registry!.listen();
+
+    const [trigger] = await pgClient!`
+      SELECT p.proname
+      FROM pg_trigger t
+      JOIN pg_proc p ON t.tgfoid = p.oid
+      WHERE t.tgname = 'Item_Quoted_trigger'
+    `;
+    expect(trigger.proname).toBe(truncateIdentifier(functionName));
+
+    const list = await prisma!.list.create({
+      data: {
+        name: 'Test List for Names',
+        owner: {
+          create: {
+            email: `test-${Date.now()}-${Math.random()
+              .toString(36)
+              .substring(2, 11)}@example.com`,
+            name: 'Names User'
+          }
+        }
+      }
+    });
+    await prisma!.item.create({
+      data: { name: 'Quoted', status: 'PENDING', listId: list.id }
+    });
+
+    await waitForCondition(
+      () => receivedNotifications[channelName].length >= 1,
+      5000
+    );
+    expect(receivedNotifications[channelName][0].data.name).toBe('Quoted');
+  });
 });
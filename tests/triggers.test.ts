@@ -10,7 +10,15 @@ import {
   getDatabaseUrl
 } from './setup';
 import { waitForNotifications, assertNotificationPayload } from './utils';
-import { createTriggers, TriggerManager, TriggerHandle } from '../src';
+import {
+  createTriggers,
+  getTriggerRejection,
+  isTriggerRejection,
+  TriggerManager,
+  TriggerHandle,
+  WhenConditionBuilder
+} from '../src';
+import type { TriggerInfo } from '../src/core/migration-helpers';
 
 describe('CRUD Triggers', () => {
   let testItemId: string;
@@ -281,6 +289,163 @@ describe('CRUD Triggers', () => {
         status: 'PENDING'
       });
     });
+
+    test('INSERT trigger should execute a schema-qualified function', async () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      await currentTriggerManager.transaction(async (tx) => {
+        await tx`CREATE SCHEMA IF NOT EXISTS test_audit`;
+        await tx`
+          CREATE OR REPLACE FUNCTION test_audit.insert_notify_func()
+          RETURNS TRIGGER AS $$
+          BEGIN
+            PERFORM pg_notify('insert_test',
+              json_build_object(
+                'operation', TG_OP,
+                'timestamp', NOW(),
+                'data', row_to_json(NEW)
+              )::text
+            );
+            RETURN NEW;
+          END;
+          $$ LANGUAGE plpgsql;
+        `;
+      });
+
+      currentTrigger = currentTriggerManager
+        .for('item')
+        .withName('test_insert_qualified_trigger')
+        .after()
+        .on('INSERT')
+        .executeFunction('test_audit.insert_notify_func')
+        .build();
+
+      await currentTrigger.setup();
+
+      const item = await prisma!.item.create({
+        data: { name: 'Audited Item', status: 'PENDING', listId: testList.id }
+      });
+
+      const received = await waitForNotifications('insert_test', 1);
+      expect(received).toBe(true);
+      assertNotificationPayload(receivedNotifications['insert_test'][0], 'INSERT', {
+        id: item.id
+      });
+    });
+
+    test('INSERT trigger using a function condition with bindings should work', async () => {
+      // Create a FRESH TriggerManager for this test
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      // Create function first
+      await currentTriggerManager.transaction(async (tx) => {
+        await tx`
+          CREATE OR REPLACE FUNCTION insert_notify_func()
+          RETURNS TRIGGER AS $$
+          BEGIN
+            PERFORM pg_notify('insert_test', 
+              json_build_object(
+                'operation', TG_OP,
+                'timestamp', NOW(),
+                'data', row_to_json(NEW)
+              )::text
+            );
+            RETURN NEW;
+          END;
+          $$ LANGUAGE plpgsql;
+        `;
+      });
+
+      // The quote in the prefix must be escaped in the generated SQL
+      const prefix = "O'Special";
+      const statuses = ['IN_PROGRESS', 'COMPLETED'];
+
+      currentTrigger = currentTriggerManager
+        .for('item')
+        .withName('test_insert_bindings_trigger')
+        .after()
+        .on('INSERT')
+        .when(
+          ({ NEW }) =>
+            NEW.name.startsWith(prefix) && statuses.includes(NEW.status),
+          { prefix, statuses }
+        )
+        .executeFunction('insert_notify_func')
+        .build();
+
+      await currentTrigger.setup();
+
+      // Create an item that should NOT trigger (status isn't bound)
+      await prisma!.item.create({
+        data: {
+          name: "O'Special Pending",
+          status: 'PENDING',
+          listId: testList.id
+        }
+      });
+
+      // Wait a moment to ensure no notification is fired
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      expect(receivedNotifications['insert_test'].length).toBe(0);
+
+      // Create an item that matches both bound values
+      const boundItem = await prisma!.item.create({
+        data: {
+          name: "O'Special Active",
+          status: 'IN_PROGRESS',
+          listId: testList.id
+        }
+      });
+
+      // Wait for the notification
+      const received = await waitForNotifications('insert_test', 1);
+      expect(received).toBe(true);
+
+      // Verify the notification payload
+      const notification = receivedNotifications['insert_test'][0];
+      assertNotificationPayload(notification, 'INSERT', {
+        id: boundItem.id,
+        name: "O'Special Active",
+        status: 'IN_PROGRESS'
+      });
+    });
+
+    test('function condition with an unbound identifier should throw', () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+      const threshold = 'IN_PROGRESS';
+
+      expect(() =>
+        currentTriggerManager!
+          .for('item')
+          .withName('test_insert_unbound_trigger')
+          .after()
+          .on('INSERT')
+          .when(({ NEW }) => NEW.status === threshold)
+      ).toThrow("Unknown identifier 'threshold'");
+    });
+
+    test('INSERT trigger with a condition on OLD should fail at build time', () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      expect(() =>
+        currentTriggerManager!
+          .for('item')
+          .withName('test_insert_old_trigger')
+          .after()
+          .on('INSERT')
+          .when('OLD."status" = \'PENDING\'')
+          .executeFunction('insert_notify_func')
+          .build()
+      ).toThrow('has no OLD row');
+    });
   });
 
   describe('UPDATE Triggers', () => {
@@ -534,6 +699,145 @@ describe('CRUD Triggers', () => {
         status: 'COMPLETED'
       });
     });
+
+    test('UPDATE trigger with a function condition on an array field should work', async () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      await currentTriggerManager.transaction(async (tx) => {
+        await tx`
+          CREATE OR REPLACE FUNCTION update_notify_func()
+          RETURNS TRIGGER AS $$
+          BEGIN
+            PERFORM pg_notify('update_test',
+              json_build_object(
+                'operation', TG_OP,
+                'timestamp', NOW(),
+                'data', row_to_json(NEW)
+              )::text
+            );
+            RETURN NEW;
+          END;
+          $$ LANGUAGE plpgsql;
+        `;
+      });
+
+      // tags is TEXT[], so includes() must compile to @> rather than LIKE,
+      // and !OLD.description to a NULL-or-empty check rather than NOT
+      currentTrigger = currentTriggerManager
+        .for('item')
+        .withName('test_update_array_condition_trigger')
+        .after()
+        .on('UPDATE')
+        .when(({ NEW, OLD }) => NEW.tags.includes('urgent') && !OLD.description)
+        .executeFunction('update_notify_func')
+        .build();
+
+      await currentTrigger.setup();
+
+      await prisma!.item.update({
+        where: { id: testItemId },
+        data: { tags: ['later'] }
+      });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      expect(receivedNotifications['update_test'].length).toBe(0);
+
+      await prisma!.item.update({
+        where: { id: testItemId },
+        data: { tags: ['urgent'], description: 'Now described' }
+      });
+      const received = await waitForNotifications('update_test', 1);
+      expect(received).toBe(true);
+
+      // The old description is no longer empty
+      await prisma!.item.update({
+        where: { id: testItemId },
+        data: { name: 'Still Urgent' }
+      });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      expect(receivedNotifications['update_test'].length).toBe(1);
+
+      const notification = receivedNotifications['update_test'][0];
+      assertNotificationPayload(notification, 'UPDATE', { id: testItemId });
+      expect(notification.data.tags).toEqual(['urgent']);
+    });
+    test('UPDATE trigger with array operators should work', async () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      await currentTriggerManager.transaction(async (tx) => {
+        await tx`
+          CREATE OR REPLACE FUNCTION update_notify_func()
+          RETURNS TRIGGER AS $$
+          BEGIN
+            PERFORM pg_notify('update_test',
+              json_build_object(
+                'operation', TG_OP,
+                'timestamp', NOW(),
+                'data', row_to_json(NEW)
+              )::text
+            );
+            RETURN NEW;
+          END;
+          $$ LANGUAGE plpgsql;
+        `;
+      });
+
+      currentTrigger = currentTriggerManager
+        .for('item')
+        .withName('test_update_array_operators_trigger')
+        .after()
+        .on('UPDATE')
+        .when((c) =>
+          c.and(
+            c.NEW('tags').contains(['urgent']),
+            c.NEW('tags').length().gt(1),
+            c.not(c.OLD('tags').overlaps(['urgent']))
+          )
+        )
+        .executeFunction('update_notify_func')
+        .build();
+
+      await currentTrigger.setup();
+
+      // Only one tag, so the length check fails
+      await prisma!.item.update({
+        where: { id: testItemId },
+        data: { tags: ['urgent'] }
+      });
+      await prisma!.item.update({
+        where: { id: testItemId },
+        data: { tags: [] }
+      });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      expect(receivedNotifications['update_test'].length).toBe(0);
+
+      await prisma!.item.update({
+        where: { id: testItemId },
+        data: { tags: ['urgent', 'billing'] }
+      });
+      const received = await waitForNotifications('update_test', 1);
+      expect(received).toBe(true);
+      expect(receivedNotifications['update_test'][0].data.tags).toEqual([
+        'urgent',
+        'billing'
+      ]);
+
+      // Array operators don't type-check on scalar fields
+      const scalarOperators = (
+        c: WhenConditionBuilder<NonNullable<typeof prisma>, 'item', 'UPDATE'>
+      ) => [
+        // @ts-expect-error name is not a list field
+        c.NEW('name').contains(['urgent']),
+        // @ts-expect-error name is not a list field
+        c.NEW('name').overlaps([]),
+        // @ts-expect-error priority is not a list field
+        c.NEW('priority').length()
+      ];
+      expect(scalarOperators).toBeFunction();
+    });
   });
 
   describe('DELETE Triggers', () => {
@@ -734,6 +1038,320 @@ describe('CRUD Triggers', () => {
     });
   });
 
+  describe('BEFORE Triggers', () => {
+    test('set() should compute fields on the written row', async () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      currentTrigger = currentTriggerManager
+        .for('item')
+        .withName('test_before_set_trigger')
+        .before()
+        .on('INSERT', 'UPDATE')
+        .set((c) => ({
+          description: c.lower(c.trim(c.NEW('name'))),
+          priority: c.multiply(c.NEW('priority'), 2)
+        }))
+        .build();
+
+      await currentTrigger.setup();
+
+      const item = await prisma!.item.create({
+        data: {
+          name: '  Computed ITEM ',
+          priority: 2,
+          listId: testList.id
+        }
+      });
+      expect(item.description).toBe('computed item');
+      expect(item.priority).toBe(4);
+
+      const updated = await prisma!.item.update({
+        where: { id: item.id },
+        data: { name: 'Renamed' }
+      });
+      expect(updated.description).toBe('renamed');
+      expect(updated.priority).toBe(8);
+    });
+
+    test('reject() should fail writes with a recognizable error', async () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      currentTrigger = currentTriggerManager
+        .for('item')
+        .withName('test_before_reject_trigger')
+        .before()
+        .on('INSERT', 'UPDATE')
+        .reject((c) => c.not(c.NEW('priority').between(0, 5)), {
+          message: 'Priority must be between 0 and 5',
+          errcode: '23514'
+        })
+        .build();
+
+      await currentTrigger.setup();
+
+      const item = await prisma!.item.create({
+        data: { name: 'Valid Priority', priority: 3, listId: testList.id }
+      });
+
+      let error: unknown;
+      try {
+        await prisma!.item.update({
+          where: { id: item.id },
+          data: { priority: 9 }
+        });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(isTriggerRejection(error, 'test_before_reject_trigger')).toBe(
+        true
+      );
+      expect(isTriggerRejection(error, 'another_trigger')).toBe(false);
+      expect(getTriggerRejection(error)).toEqual({
+        trigger: 'test_before_reject_trigger',
+        message: 'Priority must be between 0 and 5',
+        errcode: '23514'
+      });
+
+      const unchanged = await prisma!.item.findUnique({
+        where: { id: item.id }
+      });
+      expect(unchanged!.priority).toBe(3);
+    });
+
+    test('reject() should report which rule failed through the Prisma adapter', async () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      currentTrigger = currentTriggerManager
+        .for('item')
+        .withName('test_before_reject_rules_trigger')
+        .before()
+        .on('INSERT')
+        .reject((c) => c.NEW('priority').gt(5), {
+          message: 'Priority too high',
+          errcode: '23514'
+        })
+        .reject(({ NEW }) => NEW.name === '', { message: 'Name is required' })
+        .build();
+
+      await currentTrigger.setup();
+
+      let error: any;
+      try {
+        await prisma!.item.create({
+          data: { name: '', priority: 1, listId: testList.id }
+        });
+      } catch (e) {
+        error = e;
+      }
+
+      // The adapter keeps the database error as the cause
+      expect(error.cause).toMatchObject({
+        kind: 'postgres',
+        detail: 'trigger_rejection:test_before_reject_rules_trigger'
+      });
+      expect(getTriggerRejection(error)).toEqual({
+        trigger: 'test_before_reject_rules_trigger',
+        message: 'Name is required',
+        errcode: 'P0001'
+      });
+      expect(isTriggerRejection(error, currentTrigger)).toBe(true);
+    });
+
+    test('set() on an AFTER trigger should fail at build time', () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      expect(() =>
+        currentTriggerManager!.create({
+          model: 'item',
+          name: 'test_after_set_trigger',
+          timing: 'AFTER',
+          events: ['UPDATE'],
+          forEach: 'ROW',
+          functionName: 'test_after_set_func',
+          set: { priority: 1 }
+        })
+      ).toThrow('only row-level BEFORE triggers');
+    });
+  });
+
+  describe('Constraint Triggers', () => {
+    test('deferred constraint trigger should check rows at commit', async () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      // Reads the row back, since a deferred trigger gets NEW as it was
+      // when the event happened
+      await currentTriggerManager.transaction(async (tx) => {
+        await tx`
+          CREATE OR REPLACE FUNCTION check_priority_func()
+          RETURNS TRIGGER AS $$
+          BEGIN
+            IF (SELECT priority FROM "Item" WHERE id = NEW.id) < 0 THEN
+              RAISE EXCEPTION 'Priority cannot be negative';
+            END IF;
+            RETURN NULL;
+          END;
+          $$ LANGUAGE plpgsql;
+        `;
+      });
+
+      currentTrigger = currentTriggerManager
+        .for('item')
+        .withName('test_constraint_trigger')
+        .after()
+        .on('INSERT', 'UPDATE')
+        .constraint({ deferrable: true, initiallyDeferred: true })
+        .executeFunction('check_priority_func')
+        .build();
+
+      await currentTrigger.setup();
+
+      // Out of range mid-transaction, but fixed before it commits
+      const item = await prisma!.$transaction(async (tx) => {
+        const created = await tx.item.create({
+          data: { name: 'Deferred Check', priority: -1, listId: testList.id }
+        });
+        return tx.item.update({
+          where: { id: created.id },
+          data: { priority: 1 }
+        });
+      });
+      expect(item.priority).toBe(1);
+
+      // A PrismaPromise is only a thenable, so wrap it for rejects
+      await expect(
+        Promise.resolve(
+          prisma!.item.create({
+            data: { name: 'Negative', priority: -1, listId: testList.id }
+          })
+        )
+      ).rejects.toThrow('Priority cannot be negative');
+
+      const info = (await currentTriggerManager.migrations().introspect()).find(
+        (t: TriggerInfo) => t.name === 'test_constraint_trigger'
+      );
+      expect(info.constraint).toBe(true);
+      expect(info.deferrable).toBe(true);
+      expect(info.initiallyDeferred).toBe(true);
+    });
+  });
+
+  describe('Defined Functions', () => {
+    test('a shared function should be dropped with its last trigger', async () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      const tagItem = currentTriggerManager.functions.define('test_tag_func', {
+        args: ['tag'],
+        body: `
+          BEGIN
+            NEW.tags := array_append(NEW.tags, tag);
+            RETURN NEW;
+          END;
+        `
+      });
+
+      const onInsert = currentTriggerManager
+        .for('item')
+        .withName('test_tag_insert_trigger')
+        .before()
+        .on('INSERT')
+        .executeFunction(tagItem, { tag: 'created' })
+        .build();
+      const onUpdate = currentTriggerManager
+        .for('item')
+        .withName('test_tag_update_trigger')
+        .before()
+        .on('UPDATE')
+        .executeFunction(tagItem, { tag: 'updated' })
+        .build();
+
+      await onInsert.setup();
+      await onUpdate.setup();
+
+      const item = await prisma!.item.create({
+        data: { name: 'Tagged', listId: testList.id }
+      });
+      const updated = await prisma!.item.update({
+        where: { id: item.id },
+        data: { name: 'Tagged Again' }
+      });
+      expect(item.tags).toEqual(['created']);
+      expect(updated.tags).toEqual(['created', 'updated']);
+
+      const functionExists = async () => {
+        const [{ exists }] = await pgClient!`
+          SELECT to_regprocedure('"test_tag_func"()') IS NOT NULL AS exists
+        `;
+        return exists;
+      };
+
+      const [{ comment }] = await pgClient!`
+        SELECT obj_description('"test_tag_func"()'::regprocedure) AS comment
+      `;
+      expect(comment).toBe(`pg_typesafe_triggers:${tagItem.version}`);
+
+      await onInsert.drop();
+      expect(await functionExists()).toBe(true);
+
+      await onUpdate.drop();
+      expect(await functionExists()).toBe(false);
+    });
+
+    test('a function released and acquired at the same time should survive', async () => {
+      currentTriggerManager = createTriggers<NonNullable<typeof prisma>>(
+        getDatabaseUrl()
+      );
+
+      const touch = currentTriggerManager.functions.define('test_touch_func', {
+        body: 'BEGIN RETURN NEW; END;'
+      });
+
+      const functionExists = async () => {
+        const [{ exists }] = await pgClient!`
+          SELECT to_regprocedure('"test_touch_func"()') IS NOT NULL AS exists
+        `;
+        return exists;
+      };
+
+      // The release drops the function, so the acquire must create it again
+      // rather than reuse the one about to go. Open a second pooled
+      // connection first so both can run at once.
+      await touch.acquire('first_trigger');
+      await Promise.all(
+        [1, 2].map(() =>
+          currentTriggerManager!.transaction((tx) => tx`SELECT pg_sleep(0.05)`)
+        )
+      );
+      await Promise.all([
+        touch.release('first_trigger'),
+        touch.acquire('second_trigger')
+      ]);
+      expect(await functionExists()).toBe(true);
+
+      // The acquire ran first this time, so the release keeps the function
+      await Promise.all([
+        touch.acquire('first_trigger'),
+        touch.release('second_trigger')
+      ]);
+      expect(await functionExists()).toBe(true);
+
+      await touch.release('first_trigger');
+      expect(await functionExists()).toBe(false);
+    });
+  });
+
   describe('Multi-Event Triggers', () => {
     test('trigger with multiple events should work for all operations', async () => {
       // Create a FRESH TriggerManager for this test